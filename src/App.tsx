@@ -5,24 +5,61 @@ import Login from './pages/Login';
 import Register from './pages/Register';
 import Dashboard from './pages/Dashboard';
 import Profile from './pages/Profile';
+import AdminUsers from './pages/AdminUsers';
+import AdminInvitations from './pages/AdminInvitations';
+import AdminRetention from './pages/AdminRetention';
+import Organization from './pages/Organization';
+import OrganizationMember from './pages/OrganizationMember';
+import NewOrganization from './pages/NewOrganization';
+import MfaChallenge from './pages/MfaChallenge';
+import ForgotPassword from './pages/ForgotPassword';
+import MagicLink from './pages/MagicLink';
+import ResetPassword from './pages/ResetPassword';
+import AuthCallback from './pages/AuthCallback';
 import ProtectedRoute from './components/ProtectedRoute';
 import AuthLayout from './components/AuthLayout';
+import AuthProvider from './components/AuthProvider';
+import RepositoriesProvider from './components/RepositoriesProvider';
+import OrganizationProvider from './components/OrganizationProvider';
 
 function App() {
   return (
-    <BrowserRouter>
-      <Toaster position="top-right" />
-      <Routes>
-        <Route element={<AuthLayout />}>
-          <Route path="/login" element={<Login />} />
-          <Route path="/register" element={<Register />} />
-        </Route>
-        <Route element={<ProtectedRoute />}>
-          <Route path="/" element={<Dashboard />} />
-          <Route path="/profile" element={<Profile />} />
-        </Route>
-      </Routes>
-    </BrowserRouter>
+    <RepositoriesProvider>
+      <AuthProvider>
+        <OrganizationProvider>
+          <BrowserRouter>
+            <Toaster position="top-right" />
+            <Routes>
+              <Route element={<AuthLayout />}>
+                <Route path="/login" element={<Login />} />
+                <Route path="/register" element={<Register />} />
+                <Route path="/mfa" element={<MfaChallenge />} />
+                <Route path="/forgot-password" element={<ForgotPassword />} />
+                <Route path="/magic-link" element={<MagicLink />} />
+                <Route path="/reset-password" element={<ResetPassword />} />
+                <Route path="/auth/callback" element={<AuthCallback />} />
+              </Route>
+              <Route element={<ProtectedRoute />}>
+                <Route path="/" element={<Dashboard />} />
+                <Route path="/profile" element={<Profile />} />
+                <Route path="/organizations/new" element={<NewOrganization />} />
+                <Route path="/organization" element={<Organization />} />
+                <Route path="/organization/members/:userId" element={<OrganizationMember />} />
+              </Route>
+              <Route element={<ProtectedRoute requirePermission="users:read" requireMfa />}>
+                <Route path="/admin/users" element={<AdminUsers />} />
+              </Route>
+              <Route element={<ProtectedRoute requirePermission="users:invite" requireMfa />}>
+                <Route path="/admin/invitations" element={<AdminInvitations />} />
+              </Route>
+              <Route element={<ProtectedRoute requirePermission="settings:manage" requireMfa />}>
+                <Route path="/admin/retention" element={<AdminRetention />} />
+              </Route>
+            </Routes>
+          </BrowserRouter>
+        </OrganizationProvider>
+      </AuthProvider>
+    </RepositoriesProvider>
   );
 }
 
@@ -0,0 +1,274 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Download, Trash2, AlertTriangle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { useRepositories } from '../hooks/useRepositories';
+import { downloadFile, exportFilename } from '../lib/export';
+import toast from 'react-hot-toast';
+import type { AccountDeletionRequest } from '../lib/types';
+
+const deleteAccountSchema = z.object({
+  // Required only for accounts that have a password
+  password: z.string(),
+  confirmation: z.literal('DELETE', {
+    errorMap: () => ({ message: 'Type DELETE to confirm' }),
+  }),
+});
+
+type DeleteAccountForm = z.infer<typeof deleteAccountSchema>;
+
+export default function AccountDataSettings() {
+  const { user } = useAuth();
+  const { account } = useRepositories();
+  const userId = user?.id;
+  const [deletionRequest, setDeletionRequest] = useState<AccountDeletionRequest | null>(null);
+  const [showDeleteForm, setShowDeleteForm] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  // OAuth and magic-link accounts confirm with a recent sign-in instead
+  const [hasPassword, setHasPassword] = useState(true);
+  const [needsSignIn, setNeedsSignIn] = useState(false);
+  const [sendingLink, setSendingLink] = useState(false);
+  const { register, handleSubmit, formState: { errors, isSubmitting }, reset, setError } = useForm<DeleteAccountForm>({
+    resolver: zodResolver(deleteAccountSchema),
+  });
+
+  const loadDeletionRequest = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      setDeletionRequest(await account.getPendingDeletion(userId));
+    } catch {
+      toast.error('Failed to load account deletion status');
+    }
+  }, [userId, account]);
+
+  useEffect(() => {
+    loadDeletionRequest();
+  }, [loadDeletionRequest]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    supabase.rpc('has_password').then(({ data }) => {
+      setHasPassword(data ?? true);
+    });
+  }, [userId]);
+
+  const handleExport = async () => {
+    setExporting(true);
+    const { data, error } = await supabase.rpc('export_my_data');
+    setExporting(false);
+
+    if (error) {
+      toast.error('Failed to export your data');
+      return;
+    }
+
+    downloadFile(exportFilename('my-data', 'json'), JSON.stringify(data, null, 2), 'application/json');
+  };
+
+  const onDelete = async (data: DeleteAccountForm) => {
+    if (hasPassword && !data.password) {
+      setError('password', { message: 'Enter your password to confirm' });
+      return;
+    }
+
+    const { data: scheduledFor, error } = await supabase.rpc('request_account_deletion', {
+      p_password: hasPassword ? data.password : undefined,
+    });
+
+    if (error) {
+      if (!hasPassword && error.code === '42501') {
+        setNeedsSignIn(true);
+        return;
+      }
+      toast.error(error.message);
+      return;
+    }
+
+    if (!scheduledFor) {
+      setError('password', { message: 'Incorrect password' });
+      return;
+    }
+
+    reset();
+    setShowDeleteForm(false);
+    toast.success('Account deletion scheduled');
+    await loadDeletionRequest();
+  };
+
+  const handleSendSignInLink = async () => {
+    if (!user?.email) return;
+
+    setSendingLink(true);
+    const { error } = await supabase.auth.signInWithOtp({
+      email: user.email,
+      options: {
+        emailRedirectTo: `${window.location.origin}/auth/callback`,
+        shouldCreateUser: false,
+      },
+    });
+    setSendingLink(false);
+
+    if (error) {
+      toast.error('Failed to send sign-in link');
+      return;
+    }
+
+    toast.success(`Sign-in link sent to ${user.email}`);
+  };
+
+  const handleCancelDeletion = async () => {
+    const { error } = await supabase.rpc('cancel_account_deletion');
+
+    if (error) {
+      toast.error('Failed to cancel account deletion');
+      return;
+    }
+
+    toast.success('Account deletion cancelled');
+    setDeletionRequest(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <p className="text-sm font-medium text-gray-900">Download my data</p>
+          <p className="text-sm text-gray-500">
+            Your profile, login history, change history and security events as a JSON file.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={exporting}
+          className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Download className="h-4 w-4 mr-2" />
+          {exporting ? 'Preparing...' : 'Download'}
+        </button>
+      </div>
+
+      {deletionRequest ? (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="flex">
+            <AlertTriangle className="h-5 w-5 text-red-400 flex-shrink-0" />
+            <div className="ml-3 flex-1">
+              <h4 className="text-sm font-medium text-red-800">Your account is scheduled for deletion</h4>
+              <p className="mt-1 text-sm text-red-700">
+                It will be permanently deleted on {new Date(deletionRequest.scheduled_for).toLocaleString()}.
+                Until then you can change your mind.
+              </p>
+              <button
+                type="button"
+                onClick={handleCancelDeletion}
+                className="mt-3 px-3 py-2 border border-red-300 rounded-md text-sm font-medium text-red-700 bg-white hover:bg-red-50"
+              >
+                Cancel deletion
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-start justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-900">Delete my account</p>
+            <p className="text-sm text-gray-500">
+              Permanently removes your account and all of its history after a grace period.
+            </p>
+          </div>
+          {!showDeleteForm && (
+            <button
+              type="button"
+              onClick={() => setShowDeleteForm(true)}
+              className="inline-flex items-center px-3 py-2 border border-red-300 rounded-md text-sm font-medium text-red-700 bg-white hover:bg-red-50"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete account
+            </button>
+          )}
+        </div>
+      )}
+
+      {showDeleteForm && !deletionRequest && (
+        <form onSubmit={handleSubmit(onDelete)} className="rounded-md border border-red-200 p-4 space-y-4">
+          {hasPassword ? (
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                Password
+              </label>
+              <div className="mt-1">
+                <input
+                  {...register('password')}
+                  type="password"
+                  autoComplete="current-password"
+                  className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                />
+                {errors.password && (
+                  <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="text-sm text-gray-600">
+              <p>
+                Your account has no password, so deleting it needs a sign-in from the last ten minutes.
+              </p>
+              {needsSignIn && (
+                <div className="mt-2 flex items-center space-x-3">
+                  <p className="text-red-600">Please sign in again first.</p>
+                  <button
+                    type="button"
+                    onClick={handleSendSignInLink}
+                    disabled={sendingLink}
+                    className="font-medium text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+                  >
+                    {sendingLink ? 'Sending...' : 'Email me a sign-in link'}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="confirmation" className="block text-sm font-medium text-gray-700">
+              Type DELETE to confirm
+            </label>
+            <div className="mt-1">
+              <input
+                {...register('confirmation')}
+                type="text"
+                autoComplete="off"
+                className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              />
+              {errors.confirmation && (
+                <p className="mt-1 text-sm text-red-600">{errors.confirmation.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex space-x-3">
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Scheduling...' : 'Schedule deletion'}
+            </button>
+            <button
+              type="button"
+              onClick={() => { reset(); setShowDeleteForm(false); }}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
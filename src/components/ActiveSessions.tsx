@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Monitor, Smartphone } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { describeDevice, isMobileDevice } from '../lib/device';
+import toast from 'react-hot-toast';
+import type { ActiveSession } from '../lib/types';
+
+export default function ActiveSessions() {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const loadSessions = useCallback(async () => {
+    const { data, error } = await supabase.rpc('list_my_sessions');
+
+    if (error) {
+      toast.error('Failed to load active sessions');
+      return;
+    }
+
+    setSessions(data ?? []);
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const revokeSession = async (sessionId: string) => {
+    setBusy(true);
+    const { error } = await supabase.rpc('revoke_session', { p_session_id: sessionId });
+    setBusy(false);
+
+    if (error) {
+      toast.error('Failed to sign out that session');
+      return;
+    }
+
+    toast.success('Session signed out');
+    await loadSessions();
+  };
+
+  const revokeOtherSessions = async () => {
+    if (!window.confirm('Sign out of every other browser and device?')) return;
+
+    setBusy(true);
+    const { error } = await supabase.rpc('revoke_other_sessions');
+    setBusy(false);
+
+    if (error) {
+      toast.error('Failed to sign out other sessions');
+      return;
+    }
+
+    toast.success('Signed out everywhere else');
+    await loadSessions();
+  };
+
+  const hasOtherSessions = sessions.some((session) => !session.is_current);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-900">Where you're signed in</h3>
+        {hasOtherSessions && (
+          <button
+            type="button"
+            onClick={revokeOtherSessions}
+            disabled={busy}
+            className="px-3 py-2 border border-red-300 rounded-md text-sm font-medium text-red-700 bg-white hover:bg-red-50 disabled:opacity-50"
+          >
+            Sign out everywhere else
+          </button>
+        )}
+      </div>
+
+      {sessions.length > 0 ? (
+        <ul className="divide-y divide-gray-200">
+          {sessions.map((session) => {
+            const Icon = isMobileDevice(session.device_info) ? Smartphone : Monitor;
+
+            return (
+              <li key={session.id} className="flex items-center justify-between py-4">
+                <div className="flex items-center min-w-0">
+                  <Icon className="h-6 w-6 text-gray-400 flex-shrink-0" />
+                  <div className="ml-4 min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      {describeDevice(session.device_info)}
+                      {session.is_current && (
+                        <span className="ml-2 inline-flex rounded-full bg-green-100 px-2 text-xs font-semibold leading-5 text-green-800">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-500 truncate">
+                      {session.ip_address || 'Unknown IP'} &middot; Signed in{' '}
+                      {new Date(session.created_at).toLocaleString()} &middot; Last active{' '}
+                      {new Date(session.last_active_at).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+                {!session.is_current && (
+                  <button
+                    type="button"
+                    onClick={() => revokeSession(session.id)}
+                    disabled={busy}
+                    className="ml-4 text-sm font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+                  >
+                    Revoke
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-gray-500 text-sm">No active sessions found.</p>
+      )}
+    </div>
+  );
+}
@@ -2,13 +2,40 @@ import React from 'react';
 import { Navigate, Outlet, useLocation } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
 import { Shield } from 'lucide-react';
+import LoadingScreen from './LoadingScreen';
+
+const titles: Record<string, string> = {
+  '/login': 'Sign in to your account',
+  '/register': 'Create your account',
+  '/mfa': 'Two-factor authentication',
+  '/forgot-password': 'Reset your password',
+  '/magic-link': 'Sign in with a magic link',
+  '/reset-password': 'Choose a new password',
+  '/auth/callback': 'Signing you in',
+};
+
+// Pages that are reached with a session already in hand
+const signedInPaths = ['/reset-password'];
 
 export default function AuthLayout() {
-  const { user } = useAuth();
+  const { user, mfaRequired, loading } = useAuth();
   const location = useLocation();
 
-  if (user) {
-    return <Navigate to="/" replace />;
+  if (loading) {
+    return <LoadingScreen />;
+  }
+
+  if (user && !signedInPaths.includes(location.pathname)) {
+    // Signed in with a password but still owing the second factor
+    if (mfaRequired) {
+      if (location.pathname !== '/mfa') {
+        return <Navigate to="/mfa" replace />;
+      }
+    } else {
+      return <Navigate to="/" replace />;
+    }
+  } else if (location.pathname === '/mfa') {
+    return <Navigate to="/login" replace />;
   }
 
   return (
@@ -18,7 +45,7 @@ export default function AuthLayout() {
           <Shield className="h-12 w-12 text-indigo-600" />
         </div>
         <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
-          {location.pathname === '/login' ? 'Sign in to your account' : 'Create your account'}
+          {titles[location.pathname]}
         </h2>
       </div>
       <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
@@ -28,4 +55,4 @@ export default function AuthLayout() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,189 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
+import type { AuthenticatorAssuranceLevels, Session, SignOut } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { AuthContext, type AuthContextValue } from '../hooks/useAuth';
+import { useRepositories } from '../hooks/useRepositories';
+import type { AppRole, Permission, Profile } from '../lib/types';
+
+interface Access {
+  roles: AppRole[];
+  permissions: Permission[];
+}
+
+interface AssuranceLevels {
+  currentLevel: AuthenticatorAssuranceLevels | null;
+  nextLevel: AuthenticatorAssuranceLevels | null;
+}
+
+// Owns the one auth subscription for the app and caches the signed-in user's
+// profile, roles, permissions and MFA status so pages don't each fetch them
+export default function AuthProvider({ children }: { children: ReactNode }) {
+  const { profiles, roles: rolesRepo } = useRepositories();
+  const [session, setSession] = useState<Session | null>(null);
+  const [sessionLoading, setSessionLoading] = useState(true);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [access, setAccess] = useState<Access>({ roles: [], permissions: [] });
+  const [assurance, setAssurance] = useState<AssuranceLevels>({ currentLevel: null, nextLevel: null });
+  // Id of the user whose data is loaded, so a new sign-in shows as loading
+  const [loadedUserId, setLoadedUserId] = useState<string | null>(null);
+
+  const userId = session?.user.id ?? null;
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setSession(session);
+      setSessionLoading(false);
+    });
+
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      setSession(session);
+      setSessionLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const loadProfile = useCallback(async (id: string) => {
+    try {
+      return await profiles.get(id);
+    } catch (error) {
+      console.error('Failed to load profile:', error);
+      return null;
+    }
+  }, [profiles]);
+
+  const loadAccess = useCallback(async (id: string): Promise<Access> => {
+    let roles: AppRole[] = [];
+    try {
+      roles = await rolesRepo.listRoles(id);
+    } catch (error) {
+      console.error('Failed to load roles:', error);
+    }
+
+    let permissions: Permission[] = [];
+    try {
+      permissions = await rolesRepo.listPermissions(roles);
+    } catch (error) {
+      console.error('Failed to load permissions:', error);
+    }
+
+    return { roles, permissions };
+  }, [rolesRepo]);
+
+  const loadAssurance = useCallback(async (): Promise<AssuranceLevels> => {
+    const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+
+    if (error) {
+      console.error('Failed to load assurance level:', error);
+    }
+
+    return { currentLevel: data?.currentLevel ?? null, nextLevel: data?.nextLevel ?? null };
+  }, []);
+
+  useEffect(() => {
+    if (!userId) {
+      setProfile(null);
+      setAccess({ roles: [], permissions: [] });
+      setAssurance({ currentLevel: null, nextLevel: null });
+      setLoadedUserId(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    Promise.all([loadProfile(userId), loadAccess(userId), loadAssurance()]).then(
+      ([nextProfile, nextAccess, nextAssurance]) => {
+        if (cancelled) return;
+        setProfile(nextProfile);
+        setAccess(nextAccess);
+        setAssurance(nextAssurance);
+        setLoadedUserId(userId);
+      }
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, loadProfile, loadAccess, loadAssurance]);
+
+  // The access token changes on MFA verification and refresh; its aal claim
+  // is what the assurance level is read from. Deferred because calling back
+  // into the auth client from inside its own callback can deadlock.
+  const accessToken = session?.access_token;
+  useEffect(() => {
+    if (!accessToken) return;
+
+    const timeout = setTimeout(() => {
+      loadAssurance().then(setAssurance);
+    }, 0);
+
+    return () => clearTimeout(timeout);
+  }, [accessToken, loadAssurance]);
+
+  const refreshProfile = useCallback(async () => {
+    if (!userId) return null;
+
+    const nextProfile = await loadProfile(userId);
+    setProfile(nextProfile);
+    return nextProfile;
+  }, [userId, loadProfile]);
+
+  const refreshAccess = useCallback(async () => {
+    if (!userId) return;
+    setAccess(await loadAccess(userId));
+  }, [userId, loadAccess]);
+
+  const refreshMfa = useCallback(async () => {
+    setAssurance(await loadAssurance());
+  }, [loadAssurance]);
+
+  const signOut = useCallback(async (options?: SignOut) => {
+    const { error } = await supabase.auth.signOut(options);
+
+    if (error) {
+      console.error('Failed to sign out:', error);
+    }
+  }, []);
+
+  const value = useMemo<AuthContextValue>(() => {
+    // Matches is_admin() and has_permission(), which ignore roles in
+    // sessions that haven't passed a second factor
+    const staffAccess = assurance.currentLevel === 'aal2';
+
+    return {
+      session,
+      user: session?.user ?? null,
+      profile,
+      roles: access.roles,
+      permissions: access.permissions,
+      hasRole: (role) => staffAccess && access.roles.includes(role),
+      hasPermission: (permission) => staffAccess && access.permissions.includes(permission),
+      staffMfaPending: !staffAccess && access.permissions.length > 0,
+      currentLevel: assurance.currentLevel,
+      nextLevel: assurance.nextLevel,
+      mfaEnabled: assurance.nextLevel === 'aal2',
+      mfaRequired: assurance.nextLevel === 'aal2' && assurance.currentLevel !== 'aal2',
+      loading: sessionLoading || (userId !== null && loadedUserId !== userId),
+      refreshProfile,
+      refreshAccess,
+      refreshMfa,
+      signOut,
+    };
+  }, [
+    session,
+    profile,
+    access,
+    assurance,
+    sessionLoading,
+    userId,
+    loadedUserId,
+    refreshProfile,
+    refreshAccess,
+    refreshMfa,
+    signOut,
+  ]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
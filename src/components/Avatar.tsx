@@ -0,0 +1,34 @@
+import { useState } from 'react';
+import { avatarDisplayUrl, initials } from '../lib/avatar';
+import type { Profile } from '../lib/types';
+
+interface AvatarProps {
+  profile: Pick<Profile, 'first_name' | 'last_name' | 'avatar_url'> | null;
+  // Tailwind size classes, e.g. "h-8 w-8 text-xs"
+  className?: string;
+}
+
+export default function Avatar({ profile, className = 'h-8 w-8 text-xs' }: AvatarProps) {
+  const [failedUrl, setFailedUrl] = useState<string | null>(null);
+  const url = avatarDisplayUrl(profile?.avatar_url);
+
+  if (url && url !== failedUrl) {
+    return (
+      <img
+        src={url}
+        alt=""
+        onError={() => setFailedUrl(url)}
+        className={`${className} rounded-full object-cover bg-gray-100`}
+      />
+    );
+  }
+
+  return (
+    <span
+      aria-hidden="true"
+      className={`${className} inline-flex items-center justify-center rounded-full bg-indigo-100 font-medium text-indigo-700`}
+    >
+      {initials(profile)}
+    </span>
+  );
+}
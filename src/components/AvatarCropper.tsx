@@ -0,0 +1,146 @@
+import { useRef, useState, type PointerEvent } from 'react';
+import { ZoomIn, ZoomOut } from 'lucide-react';
+import type { SquareCrop } from '../lib/avatar';
+
+const VIEWPORT_SIZE = 256;
+const MAX_ZOOM = 4;
+
+interface AvatarCropperProps {
+  image: HTMLImageElement;
+  onCancel: () => void;
+  onCrop: (crop: SquareCrop) => void;
+  saving?: boolean;
+}
+
+interface Offset {
+  x: number;
+  y: number;
+}
+
+// Keep the image covering the whole viewport
+function clampOffset(offset: Offset, width: number, height: number): Offset {
+  return {
+    x: Math.min(0, Math.max(VIEWPORT_SIZE - width, offset.x)),
+    y: Math.min(0, Math.max(VIEWPORT_SIZE - height, offset.y)),
+  };
+}
+
+// Drag to position and zoom to frame a square; reports the crop in source pixels
+export default function AvatarCropper({ image, onCancel, onCrop, saving = false }: AvatarCropperProps) {
+  const baseScale = VIEWPORT_SIZE / Math.min(image.naturalWidth, image.naturalHeight);
+  const [zoom, setZoom] = useState(1);
+  const scale = baseScale * zoom;
+  const width = image.naturalWidth * scale;
+  const height = image.naturalHeight * scale;
+  const [offset, setOffset] = useState<Offset>(() =>
+    clampOffset(
+      { x: (VIEWPORT_SIZE - image.naturalWidth * baseScale) / 2, y: (VIEWPORT_SIZE - image.naturalHeight * baseScale) / 2 },
+      image.naturalWidth * baseScale,
+      image.naturalHeight * baseScale
+    )
+  );
+  const drag = useRef<{ pointerX: number; pointerY: number; start: Offset } | null>(null);
+
+  const handleZoom = (nextZoom: number) => {
+    const nextScale = baseScale * nextZoom;
+    // Zoom around the centre of the viewport
+    const centre = VIEWPORT_SIZE / 2;
+    setOffset((current) =>
+      clampOffset(
+        {
+          x: centre - ((centre - current.x) / scale) * nextScale,
+          y: centre - ((centre - current.y) / scale) * nextScale,
+        },
+        image.naturalWidth * nextScale,
+        image.naturalHeight * nextScale
+      )
+    );
+    setZoom(nextZoom);
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drag.current = { pointerX: event.clientX, pointerY: event.clientY, start: offset };
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!drag.current) return;
+
+    const { pointerX, pointerY, start } = drag.current;
+    setOffset(
+      clampOffset(
+        { x: start.x + event.clientX - pointerX, y: start.y + event.clientY - pointerY },
+        width,
+        height
+      )
+    );
+  };
+
+  const handlePointerUp = () => {
+    drag.current = null;
+  };
+
+  const handleSave = () => {
+    onCrop({
+      x: -offset.x / scale,
+      y: -offset.y / scale,
+      size: VIEWPORT_SIZE / scale,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="relative overflow-hidden rounded-md bg-gray-900 cursor-move touch-none select-none"
+        style={{ width: VIEWPORT_SIZE, height: VIEWPORT_SIZE }}
+      >
+        <img
+          src={image.src}
+          alt=""
+          draggable={false}
+          className="absolute max-w-none"
+          style={{ width, height, left: offset.x, top: offset.y }}
+        />
+        <div className="pointer-events-none absolute inset-0 rounded-full ring-[999px] ring-black ring-opacity-40" />
+      </div>
+
+      <div className="flex items-center space-x-3" style={{ width: VIEWPORT_SIZE }}>
+        <ZoomOut className="h-4 w-4 text-gray-500" />
+        <input
+          type="range"
+          min={1}
+          max={MAX_ZOOM}
+          step={0.01}
+          value={zoom}
+          onChange={(event) => handleZoom(Number(event.target.value))}
+          aria-label="Zoom"
+          className="flex-1"
+        />
+        <ZoomIn className="h-4 w-4 text-gray-500" />
+      </div>
+
+      <div className="flex space-x-3">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save avatar'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={saving}
+          className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
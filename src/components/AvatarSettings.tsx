@@ -0,0 +1,153 @@
+import { useRef, useState, type ChangeEvent } from 'react';
+import { Camera, Trash2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { useRepositories } from '../hooks/useRepositories';
+import { AVATAR_BUCKET, MAX_SOURCE_IMAGE_BYTES, avatarObjectPath, cropToSquare, type SquareCrop } from '../lib/avatar';
+import Avatar from './Avatar';
+import AvatarCropper from './AvatarCropper';
+import toast from 'react-hot-toast';
+
+interface AvatarSettingsProps {
+  onChanged?: () => void;
+}
+
+export default function AvatarSettings({ onChanged }: AvatarSettingsProps) {
+  const { user, profile, refreshProfile } = useAuth();
+  const { profiles } = useRepositories();
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [saving, setSaving] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const closeCropper = () => {
+    if (image) URL.revokeObjectURL(image.src);
+    setImage(null);
+  };
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast.error('Choose an image file');
+      return;
+    }
+
+    if (file.size > MAX_SOURCE_IMAGE_BYTES) {
+      toast.error('Choose an image smaller than 10 MB');
+      return;
+    }
+
+    const next = new Image();
+    next.onload = () => setImage(next);
+    next.onerror = () => {
+      URL.revokeObjectURL(next.src);
+      toast.error('That image could not be read');
+    };
+    next.src = URL.createObjectURL(file);
+  };
+
+  // Point the profile at a new URL (or none) and remove the old file. The
+  // profile update is what the audit trigger records.
+  const replaceAvatar = async (avatarUrl: string | null) => {
+    if (!user) return false;
+
+    const previousPath = avatarObjectPath(profile?.avatar_url);
+    try {
+      await profiles.update(user.id, { avatar_url: avatarUrl });
+    } catch {
+      return false;
+    }
+
+    if (previousPath) {
+      await supabase.storage.from(AVATAR_BUCKET).remove([previousPath]);
+    }
+
+    await refreshProfile();
+    onChanged?.();
+    return true;
+  };
+
+  const handleCrop = async (crop: SquareCrop) => {
+    if (!user || !image) return;
+
+    setSaving(true);
+    try {
+      const blob = await cropToSquare(image, crop);
+      const extension = blob.type === 'image/webp' ? 'webp' : 'png';
+      const path = `${user.id}/${Date.now()}.${extension}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from(AVATAR_BUCKET)
+        .upload(path, blob, { contentType: blob.type });
+
+      if (uploadError) throw uploadError;
+
+      const { data: { publicUrl } } = supabase.storage.from(AVATAR_BUCKET).getPublicUrl(path);
+
+      if (!(await replaceAvatar(publicUrl))) {
+        await supabase.storage.from(AVATAR_BUCKET).remove([path]);
+        throw new Error('Failed to save avatar');
+      }
+
+      closeCropper();
+      toast.success('Avatar updated');
+    } catch {
+      toast.error('Failed to upload avatar');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setSaving(true);
+    const removed = await replaceAvatar(null);
+    setSaving(false);
+
+    if (!removed) {
+      toast.error('Failed to remove avatar');
+      return;
+    }
+
+    toast.success('Avatar removed');
+  };
+
+  if (image) {
+    return (
+      <AvatarCropper image={image} onCancel={closeCropper} onCrop={handleCrop} saving={saving} />
+    );
+  }
+
+  return (
+    <div className="flex items-center space-x-4">
+      <Avatar profile={profile} className="h-16 w-16 text-lg" />
+      <input
+        ref={fileInput}
+        type="file"
+        accept="image/png,image/jpeg,image/webp"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+      <button
+        type="button"
+        onClick={() => fileInput.current?.click()}
+        className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+      >
+        <Camera className="h-4 w-4 mr-2" />
+        {profile?.avatar_url ? 'Change avatar' : 'Upload avatar'}
+      </button>
+      {profile?.avatar_url && (
+        <button
+          type="button"
+          onClick={handleRemove}
+          disabled={saving}
+          className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Trash2 className="h-4 w-4 mr-2" />
+          Remove
+        </button>
+      )}
+    </div>
+  );
+}
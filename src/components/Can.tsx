@@ -0,0 +1,14 @@
+import type { ReactNode } from 'react';
+import { useCan } from '../hooks/useCan';
+import type { AccessRequirement } from '../lib/access';
+
+interface CanProps extends AccessRequirement {
+  children: ReactNode;
+  fallback?: ReactNode;
+}
+
+// Renders children only when the user meets the requirement. This is for
+// hiding UI; the database enforces the same rules through RLS.
+export default function Can({ children, fallback = null, ...requirement }: CanProps) {
+  return <>{useCan(requirement) ? children : fallback}</>;
+}
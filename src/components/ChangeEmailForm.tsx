@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { supabase } from '../lib/supabase';
+import { updateCredentials } from '../lib/credentials';
+import { useAuth } from '../hooks/useAuth';
+import toast from 'react-hot-toast';
+
+const changeEmailSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  // Required only for accounts that have a password
+  currentPassword: z.string(),
+});
+
+type ChangeEmailForm = z.infer<typeof changeEmailSchema>;
+
+export default function ChangeEmailForm() {
+  const { user } = useAuth();
+  const userId = user?.id;
+  // OAuth and magic-link accounts confirm with a recent sign-in link instead
+  const [hasPassword, setHasPassword] = useState(true);
+  const [needsSignIn, setNeedsSignIn] = useState(false);
+  const [sendingLink, setSendingLink] = useState(false);
+  const { register, handleSubmit, formState: { errors, isSubmitting }, reset, setError } = useForm<ChangeEmailForm>({
+    resolver: zodResolver(changeEmailSchema),
+  });
+
+  useEffect(() => {
+    if (!userId) return;
+
+    supabase.rpc('has_password').then(({ data }) => {
+      setHasPassword(data ?? true);
+    });
+  }, [userId]);
+
+  const onSubmit = async (data: ChangeEmailForm) => {
+    if (!user) return;
+
+    if (data.email.toLowerCase() === user.email?.toLowerCase()) {
+      setError('email', { message: 'This is already your email address' });
+      return;
+    }
+
+    if (hasPassword && !data.currentPassword) {
+      setError('currentPassword', { message: 'Enter your current password' });
+      return;
+    }
+
+    const { error } = await updateCredentials({
+      currentPassword: hasPassword ? data.currentPassword : undefined,
+      email: data.email,
+      emailRedirectTo: `${window.location.origin}/profile`,
+    });
+
+    if (error?.code === 'incorrect_password') {
+      setError('currentPassword', { message: 'Incorrect password' });
+      return;
+    }
+
+    if (error?.code === 'reauthentication_required' && !hasPassword) {
+      setNeedsSignIn(true);
+      return;
+    }
+
+    if (error) {
+      toast.error(error.code === 'too_many_attempts' ? error.message : 'Failed to change email. Please try again.');
+      return;
+    }
+
+    // The request was made server-side; refresh so the pending address shows
+    await supabase.auth.refreshSession();
+
+    reset();
+    setNeedsSignIn(false);
+    toast.success('Check both inboxes: confirm the change from your current and your new address.');
+  };
+
+  const handleSendSignInLink = async () => {
+    if (!user?.email) return;
+
+    setSendingLink(true);
+    const { error } = await supabase.auth.signInWithOtp({
+      email: user.email,
+      options: {
+        emailRedirectTo: `${window.location.origin}/auth/callback`,
+        shouldCreateUser: false,
+      },
+    });
+    setSendingLink(false);
+
+    if (error) {
+      toast.error('Failed to send sign-in link');
+      return;
+    }
+
+    toast.success(`Sign-in link sent to ${user.email}`);
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <h4 className="text-sm font-medium text-gray-900">Change email</h4>
+      <p className="text-sm text-gray-500">
+        Currently <span className="font-medium text-gray-700">{user?.email}</span>
+        {user?.new_email && (
+          <>
+            {' '}&middot; waiting for confirmation of{' '}
+            <span className="font-medium text-gray-700">{user.new_email}</span>
+          </>
+        )}
+      </p>
+
+      <div>
+        <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+          New email address
+        </label>
+        <div className="mt-1">
+          <input
+            {...register('email')}
+            type="email"
+            autoComplete="email"
+            className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          />
+          {errors.email && (
+            <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
+          )}
+        </div>
+      </div>
+
+      {hasPassword ? (
+        <div>
+          <label htmlFor="currentPassword" className="block text-sm font-medium text-gray-700">
+            Current password
+          </label>
+          <div className="mt-1">
+            <input
+              {...register('currentPassword')}
+              type="password"
+              autoComplete="current-password"
+              className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+            {errors.currentPassword && (
+              <p className="mt-1 text-sm text-red-600">{errors.currentPassword.message}</p>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="text-sm text-gray-600">
+          <p>Your account has no password, so changing your email needs a sign-in from the last ten minutes.</p>
+          {needsSignIn && (
+            <div className="mt-2 flex items-center space-x-3">
+              <p className="text-red-600">Please sign in again first.</p>
+              <button
+                type="button"
+                onClick={handleSendSignInLink}
+                disabled={sendingLink}
+                className="font-medium text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+              >
+                {sendingLink ? 'Sending...' : 'Email me a sign-in link'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+      >
+        {isSubmitting ? 'Sending...' : 'Change email'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,123 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { passwordSchema } from '../lib/password';
+import { NEW_PASSWORD_ERRORS, updateCredentials } from '../lib/credentials';
+import PasswordStrengthMeter from './PasswordStrengthMeter';
+import toast from 'react-hot-toast';
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Enter your current password'),
+  newPassword: passwordSchema,
+  confirmPassword: z.string(),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword'],
+}).refine((data) => data.newPassword !== data.currentPassword, {
+  message: 'New password must be different from your current password',
+  path: ['newPassword'],
+});
+
+type ChangePasswordForm = z.infer<typeof changePasswordSchema>;
+
+interface ChangePasswordFormProps {
+  onChanged?: () => void;
+}
+
+export default function ChangePasswordForm({ onChanged }: ChangePasswordFormProps) {
+  const { register, handleSubmit, formState: { errors, isSubmitting }, reset, setError, watch } = useForm<ChangePasswordForm>({
+    resolver: zodResolver(changePasswordSchema),
+  });
+
+  const onSubmit = async (data: ChangePasswordForm) => {
+    const { error } = await updateCredentials({
+      currentPassword: data.currentPassword,
+      password: data.newPassword,
+    });
+
+    if (error?.code === 'incorrect_password') {
+      setError('currentPassword', { message: 'Incorrect password' });
+      return;
+    }
+
+    if (error && NEW_PASSWORD_ERRORS.includes(error.code)) {
+      setError('newPassword', { message: error.message });
+      return;
+    }
+
+    if (error) {
+      toast.error(error.code === 'too_many_attempts' ? error.message : 'Failed to change password. Please try again.');
+      return;
+    }
+
+    reset();
+    toast.success('Password changed successfully');
+    onChanged?.();
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <h4 className="text-sm font-medium text-gray-900">Change password</h4>
+
+      <div>
+        <label htmlFor="currentPassword" className="block text-sm font-medium text-gray-700">
+          Current password
+        </label>
+        <div className="mt-1">
+          <input
+            {...register('currentPassword')}
+            type="password"
+            autoComplete="current-password"
+            className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          />
+          {errors.currentPassword && (
+            <p className="mt-1 text-sm text-red-600">{errors.currentPassword.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="newPassword" className="block text-sm font-medium text-gray-700">
+          New password
+        </label>
+        <div className="mt-1">
+          <input
+            {...register('newPassword')}
+            type="password"
+            autoComplete="new-password"
+            className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          />
+          <PasswordStrengthMeter password={watch('newPassword')} />
+          {errors.newPassword && (
+            <p className="mt-1 text-sm text-red-600">{errors.newPassword.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
+          Confirm new password
+        </label>
+        <div className="mt-1">
+          <input
+            {...register('confirmPassword')}
+            type="password"
+            autoComplete="new-password"
+            className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          />
+          {errors.confirmPassword && (
+            <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>
+          )}
+        </div>
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+      >
+        {isSubmitting ? 'Saving...' : 'Change password'}
+      </button>
+    </form>
+  );
+}
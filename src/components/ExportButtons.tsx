@@ -0,0 +1,36 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+
+interface ExportButtonsProps {
+  onExport: (format: 'csv' | 'json') => Promise<void>;
+}
+
+export default function ExportButtons({ onExport }: ExportButtonsProps) {
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    setExporting(true);
+    try {
+      await onExport(format);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex space-x-2">
+      {(['csv', 'json'] as const).map((format) => (
+        <button
+          key={format}
+          type="button"
+          onClick={() => handleExport(format)}
+          disabled={exporting}
+          className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Download className="h-4 w-4 mr-1" />
+          {format.toUpperCase()}
+        </button>
+      ))}
+    </div>
+  );
+}
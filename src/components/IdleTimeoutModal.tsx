@@ -0,0 +1,47 @@
+import { Clock } from 'lucide-react';
+
+interface IdleTimeoutModalProps {
+  remainingMs: number;
+  onStaySignedIn: () => void;
+}
+
+export default function IdleTimeoutModal({ remainingMs, onStaySignedIn }: IdleTimeoutModalProps) {
+  const seconds = Math.ceil(remainingMs / 1000);
+  const countdown = seconds >= 60
+    ? `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+    : `${seconds} second${seconds === 1 ? '' : 's'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-500 bg-opacity-75 px-4">
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="idle-timeout-title"
+        className="w-full max-w-sm rounded-lg bg-white p-6 shadow-xl"
+      >
+        <div className="flex items-start">
+          <Clock className="h-6 w-6 text-yellow-500 flex-shrink-0" />
+          <div className="ml-3">
+            <h3 id="idle-timeout-title" className="text-lg font-medium text-gray-900">
+              Are you still there?
+            </h3>
+            <p className="mt-2 text-sm text-gray-500">
+              For your security you will be signed out in{' '}
+              <span className="font-medium text-gray-900">{countdown}</span> because of inactivity.
+            </p>
+          </div>
+        </div>
+        <div className="mt-6">
+          <button
+            type="button"
+            onClick={onStaySignedIn}
+            autoFocus
+            className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Stay signed in
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
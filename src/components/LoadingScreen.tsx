@@ -0,0 +1,10 @@
+import { Shield } from 'lucide-react';
+
+export default function LoadingScreen() {
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center" role="status">
+      <Shield className="h-12 w-12 text-indigo-600 animate-pulse" />
+      <p className="mt-4 text-sm text-gray-500">Loading your account...</p>
+    </div>
+  );
+}
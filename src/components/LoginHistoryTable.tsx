@@ -0,0 +1,213 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useRepositories } from '../hooks/useRepositories';
+import { useHighlight } from '../hooks/useHighlight';
+import { describeAuthMethod } from '../lib/authMethods';
+import { downloadFile, endOfDayIso, exportFilename, startOfDayIso, toCsv } from '../lib/export';
+import Pagination from './Pagination';
+import SortableHeader, { type SortState } from './SortableHeader';
+import ExportButtons from './ExportButtons';
+import toast from 'react-hot-toast';
+import type { LoginHistoryFilter, LoginHistorySortColumn } from '../lib/repositories/types';
+import type { LoginHistory, LoginRiskFlag } from '../lib/types';
+
+const PAGE_SIZE = 10;
+const EXPORT_BATCH_SIZE = 1000;
+
+const riskFlagLabels: Record<LoginRiskFlag, string> = {
+  new_device: 'New device',
+  new_ip: 'New IP',
+  after_failures: 'After failed attempts',
+};
+
+type StatusFilter = 'all' | 'success' | 'failed';
+
+interface LoginHistoryTableProps {
+  userId: string;
+}
+
+export default function LoginHistoryTable({ userId }: LoginHistoryTableProps) {
+  const { loginHistory } = useRepositories();
+  const [rows, setRows] = useState<LoginHistory[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [status, setStatus] = useState<StatusFilter>('all');
+  const [sort, setSort] = useState<SortState<LoginHistorySortColumn>>({ column: 'login_timestamp', ascending: false });
+  // Bumped when a sign-in arrives over realtime
+  const [liveVersion, setLiveVersion] = useState(0);
+  const { highlight, isHighlighted } = useHighlight();
+
+  const filter = useMemo<LoginHistoryFilter>(() => ({
+    from: from ? startOfDayIso(from) : undefined,
+    to: to ? endOfDayIso(to) : undefined,
+    success: status === 'all' ? undefined : status === 'success',
+  }), [from, to, status]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loginHistory
+      .list(userId, { filter, sort, offset: page * PAGE_SIZE, limit: PAGE_SIZE })
+      .then(({ rows, total }) => {
+        if (cancelled) return;
+        setRows(rows);
+        setTotal(total);
+      })
+      .catch(() => {
+        if (!cancelled) toast.error('Failed to load login history');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loginHistory, userId, filter, sort, page, liveVersion]);
+
+  // Reloading rather than splicing the row in keeps filters, sort order and
+  // the total right; on the default view it lands at the top
+  useEffect(() => loginHistory.subscribe(userId, (login) => {
+    highlight(login.id);
+    setLiveVersion((current) => current + 1);
+  }), [loginHistory, userId, highlight]);
+
+  const handleSort = (next: SortState<LoginHistorySortColumn>) => {
+    setSort(next);
+    setPage(0);
+  };
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    const all: LoginHistory[] = [];
+
+    try {
+      for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+        const { rows: batch } = await loginHistory.list(userId, { filter, sort, offset, limit: EXPORT_BATCH_SIZE });
+
+        all.push(...batch);
+        if (batch.length < EXPORT_BATCH_SIZE) break;
+      }
+    } catch {
+      toast.error('Failed to export login history');
+      return;
+    }
+
+    if (format === 'json') {
+      downloadFile(exportFilename('login-history', 'json'), JSON.stringify(all, null, 2), 'application/json');
+      return;
+    }
+
+    const csv = toCsv(all, [
+      { header: 'Date & Time', value: (row) => row.login_timestamp },
+      { header: 'IP Address', value: (row) => row.ip_address },
+      { header: 'Device Info', value: (row) => row.device_info },
+      { header: 'Method', value: (row) => (row.auth_method ? describeAuthMethod(row.auth_method, row.auth_provider) : null) },
+      { header: 'Status', value: (row) => (row.success ? 'Success' : 'Failed') },
+      { header: 'Failure Reason', value: (row) => row.failure_reason },
+      { header: 'Flags', value: (row) => row.risk_flags?.join(' ') },
+    ]);
+    downloadFile(exportFilename('login-history', 'csv'), csv, 'text/csv');
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-500">From</label>
+            <input
+              type="date"
+              value={from}
+              onChange={(event) => { setFrom(event.target.value); setPage(0); }}
+              className="mt-1 block px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500">To</label>
+            <input
+              type="date"
+              value={to}
+              onChange={(event) => { setTo(event.target.value); setPage(0); }}
+              className="mt-1 block px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500">Status</label>
+            <select
+              value={status}
+              onChange={(event) => { setStatus(event.target.value as StatusFilter); setPage(0); }}
+              className="mt-1 block px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              <option value="all">All</option>
+              <option value="success">Success</option>
+              <option value="failed">Failed</option>
+            </select>
+          </div>
+        </div>
+        <ExportButtons onExport={handleExport} />
+      </div>
+
+      {total > 0 ? (
+        <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 sm:rounded-lg">
+          <table className="min-w-full divide-y divide-gray-300">
+            <thead className="bg-gray-50">
+              <tr>
+                <SortableHeader
+                  label="Date & Time"
+                  column="login_timestamp"
+                  sort={sort}
+                  onSort={handleSort}
+                  className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900"
+                />
+                <SortableHeader label="IP Address" column="ip_address" sort={sort} onSort={handleSort} />
+                <SortableHeader label="Device Info" column="device_info" sort={sort} onSort={handleSort} />
+                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Method</th>
+                <SortableHeader label="Status" column="success" sort={sort} onSort={handleSort} />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {rows.map((login) => (
+                <tr
+                  key={login.id}
+                  className={`transition-colors duration-1000 ${isHighlighted(login.id) ? 'bg-yellow-50' : ''}`}
+                >
+                  <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm text-gray-900">
+                    {new Date(login.login_timestamp).toLocaleString()}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{login.ip_address}</td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{login.device_info}</td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                    {login.success ? describeAuthMethod(login.auth_method, login.auth_provider) : '-'}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm">
+                    <span className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${
+                      login.success
+                        ? 'bg-green-100 text-green-800'
+                        : 'bg-red-100 text-red-800'
+                    }`}>
+                      {login.success ? 'Success' : 'Failed'}
+                    </span>
+                    {!login.success && login.failure_reason && (
+                      <span className="ml-2 text-xs text-gray-500">
+                        ({login.failure_reason})
+                      </span>
+                    )}
+                    {login.risk_flags?.map((flag) => (
+                      <span
+                        key={flag}
+                        className="ml-2 inline-flex rounded-full bg-yellow-100 px-2 text-xs font-semibold leading-5 text-yellow-800"
+                      >
+                        {riskFlagLabels[flag]}
+                      </span>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <Pagination page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} />
+        </div>
+      ) : (
+        <p className="text-gray-500 text-sm">No login history matches these filters.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { ShieldCheck, ShieldOff, Download, Copy } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import toast from 'react-hot-toast';
+import type { Factor } from '@supabase/supabase-js';
+
+const verifySchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app'),
+});
+
+type VerifyForm = z.infer<typeof verifySchema>;
+
+interface Enrollment {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+}
+
+export default function MfaSettings() {
+  const { refreshMfa } = useAuth();
+  const [factor, setFactor] = useState<Factor | null>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [remainingCodes, setRemainingCodes] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const { register, handleSubmit, formState: { errors, isSubmitting }, reset } = useForm<VerifyForm>({
+    resolver: zodResolver(verifySchema),
+  });
+
+  const loadFactors = useCallback(async () => {
+    const { data, error } = await supabase.auth.mfa.listFactors();
+
+    if (error) {
+      toast.error('Failed to load two-factor settings');
+      setLoading(false);
+      return;
+    }
+
+    // `totp` only lists verified factors
+    const verified = data.totp[0] ?? null;
+    setFactor(verified);
+
+    if (verified) {
+      const { data: remaining } = await supabase.rpc('recovery_codes_remaining');
+      setRemainingCodes(remaining ?? 0);
+    }
+
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadFactors();
+  }, [loadFactors]);
+
+  const generateRecoveryCodes = async () => {
+    const { data, error } = await supabase.rpc('generate_recovery_codes');
+
+    if (error) {
+      toast.error('Failed to generate recovery codes');
+      return;
+    }
+
+    setRecoveryCodes(data);
+    setRemainingCodes(data.length);
+  };
+
+  const startEnrollment = async () => {
+    setBusy(true);
+
+    // Clear out factors left behind by abandoned enrollments
+    const { data: existing } = await supabase.auth.mfa.listFactors();
+    for (const stale of existing?.all.filter((f) => f.status === 'unverified') ?? []) {
+      await supabase.auth.mfa.unenroll({ factorId: stale.id });
+    }
+
+    const { data, error } = await supabase.auth.mfa.enroll({
+      factorType: 'totp',
+      friendlyName: 'Authenticator app',
+    });
+
+    setBusy(false);
+
+    if (error) {
+      toast.error('Failed to start two-factor setup');
+      return;
+    }
+
+    setEnrollment({ factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret });
+  };
+
+  const cancelEnrollment = async () => {
+    if (enrollment) {
+      await supabase.auth.mfa.unenroll({ factorId: enrollment.factorId });
+    }
+    setEnrollment(null);
+    reset();
+  };
+
+  const verifyEnrollment = async (data: VerifyForm) => {
+    if (!enrollment) return;
+
+    const { error } = await supabase.auth.mfa.challengeAndVerify({
+      factorId: enrollment.factorId,
+      code: data.code,
+    });
+
+    if (error) {
+      toast.error('Invalid code. Please try again.');
+      return;
+    }
+
+    setEnrollment(null);
+    reset();
+    toast.success('Two-factor authentication enabled');
+
+    // The session is now AAL2, which generating recovery codes requires
+    await generateRecoveryCodes();
+    await Promise.all([loadFactors(), refreshMfa()]);
+  };
+
+  const removeFactor = async () => {
+    if (!factor) return;
+    if (!window.confirm('Remove your authenticator? You will only need your password to sign in.')) return;
+
+    setBusy(true);
+    const { error } = await supabase.auth.mfa.unenroll({ factorId: factor.id });
+    setBusy(false);
+
+    if (error) {
+      toast.error('Failed to remove authenticator');
+      return;
+    }
+
+    setRecoveryCodes(null);
+    toast.success('Two-factor authentication disabled');
+    await Promise.all([loadFactors(), refreshMfa()]);
+  };
+
+  const downloadRecoveryCodes = () => {
+    if (!recoveryCodes) return;
+
+    const blob = new Blob([recoveryCodes.join('\n') + '\n'], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+
+    await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    toast.success('Recovery codes copied');
+  };
+
+  if (loading) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div className="flex items-start">
+          {factor ? (
+            <ShieldCheck className="h-6 w-6 text-green-600 flex-shrink-0" />
+          ) : (
+            <ShieldOff className="h-6 w-6 text-gray-400 flex-shrink-0" />
+          )}
+          <div className="ml-3">
+            <p className="text-sm font-medium text-gray-900">Authenticator app</p>
+            <p className="text-sm text-gray-500">
+              {factor
+                ? `Enabled. ${remainingCodes} recovery code${remainingCodes === 1 ? '' : 's'} remaining.`
+                : 'Use an authenticator app to get a verification code when you sign in.'}
+            </p>
+          </div>
+        </div>
+        {!enrollment && (
+          factor ? (
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={generateRecoveryCodes}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                New recovery codes
+              </button>
+              <button
+                type="button"
+                onClick={removeFactor}
+                disabled={busy}
+                className="px-3 py-2 border border-red-300 rounded-md text-sm font-medium text-red-700 bg-white hover:bg-red-50 disabled:opacity-50"
+              >
+                Remove
+              </button>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={startEnrollment}
+              disabled={busy}
+              className="px-3 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Set up
+            </button>
+          )
+        )}
+      </div>
+
+      {enrollment && (
+        <form onSubmit={handleSubmit(verifyEnrollment)} className="rounded-md border border-gray-200 p-4 space-y-4">
+          <p className="text-sm text-gray-700">
+            Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+          </p>
+          <img src={enrollment.qrCode} alt="Authenticator QR code" className="h-44 w-44" />
+          <p className="text-xs text-gray-500">
+            Can't scan it? Enter this key manually:{' '}
+            <code className="font-mono text-gray-700 break-all">{enrollment.secret}</code>
+          </p>
+          <div>
+            <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+              Verification code
+            </label>
+            <div className="mt-1">
+              <input
+                {...register('code')}
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                className="appearance-none block w-full sm:w-48 px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm tracking-widest"
+              />
+              {errors.code && (
+                <p className="mt-1 text-sm text-red-600">{errors.code.message}</p>
+              )}
+            </div>
+          </div>
+          <div className="flex space-x-3">
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Verifying...' : 'Verify and enable'}
+            </button>
+            <button
+              type="button"
+              onClick={cancelEnrollment}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {recoveryCodes && (
+        <div className="rounded-md border border-yellow-200 bg-yellow-50 p-4 space-y-4">
+          <div>
+            <p className="text-sm font-medium text-yellow-800">Save your recovery codes</p>
+            <p className="mt-1 text-sm text-yellow-700">
+              Each code can be used once to sign in if you lose your authenticator. They won't be shown again.
+            </p>
+          </div>
+          <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900">
+            {recoveryCodes.map((code) => (
+              <li key={code}>{code}</li>
+            ))}
+          </ul>
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={downloadRecoveryCodes}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download
+            </button>
+            <button
+              type="button"
+              onClick={copyRecoveryCodes}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Copy className="h-4 w-4 mr-2" />
+              Copy
+            </button>
+            <button
+              type="button"
+              onClick={() => setRecoveryCodes(null)}
+              className="px-3 py-2 text-sm font-medium text-yellow-800 hover:text-yellow-900"
+            >
+              I've saved them
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
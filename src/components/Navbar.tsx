@@ -1,15 +1,20 @@
 import React from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { UserCircle, LogOut } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { Archive, Building2, LogOut, ShieldAlert, UserPlus, Users } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
+import { useOrganizations } from '../hooks/useOrganizations';
+import NotificationBell from './NotificationBell';
+import Can from './Can';
+import Avatar from './Avatar';
+import OrganizationSwitcher from './OrganizationSwitcher';
 
 export default function Navbar() {
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const { profile, staffMfaPending, mfaEnabled, signOut } = useAuth();
+  const { current } = useOrganizations();
 
   const handleLogout = async () => {
-    await supabase.auth.signOut();
+    await signOut();
     navigate('/login');
   };
 
@@ -17,17 +22,66 @@ export default function Navbar() {
     <nav className="bg-white shadow">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex justify-between h-16">
-          <div className="flex">
+          <div className="flex items-center space-x-4">
             <Link to="/" className="flex items-center px-2 py-2 text-gray-700 hover:text-gray-900">
               <span className="text-lg font-semibold">User Management</span>
             </Link>
+            <OrganizationSwitcher />
           </div>
           <div className="flex items-center space-x-4">
+            <NotificationBell />
+            {current && (
+              <Link
+                to="/organization"
+                className="flex items-center px-3 py-2 rounded-md text-sm font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-50"
+              >
+                <Building2 className="h-5 w-5 mr-2" />
+                Team
+              </Link>
+            )}
+            {/* Staff links stay hidden until the session has passed a second factor */}
+            {staffMfaPending && (
+              <Link
+                to={mfaEnabled ? '/mfa' : '/profile#security'}
+                title="Your staff permissions need a session verified with two-factor authentication"
+                className="flex items-center px-3 py-2 rounded-md text-sm font-medium text-yellow-800 hover:text-yellow-900 hover:bg-yellow-50"
+              >
+                <ShieldAlert className="h-5 w-5 mr-2" />
+                {mfaEnabled ? 'Verify MFA for staff tools' : 'Set up MFA for staff tools'}
+              </Link>
+            )}
+            <Can permission="users:read">
+              <Link
+                to="/admin/users"
+                className="flex items-center px-3 py-2 rounded-md text-sm font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-50"
+              >
+                <Users className="h-5 w-5 mr-2" />
+                Users
+              </Link>
+            </Can>
+            <Can permission="users:invite">
+              <Link
+                to="/admin/invitations"
+                className="flex items-center px-3 py-2 rounded-md text-sm font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-50"
+              >
+                <UserPlus className="h-5 w-5 mr-2" />
+                Invitations
+              </Link>
+            </Can>
+            <Can permission="settings:manage">
+              <Link
+                to="/admin/retention"
+                className="flex items-center px-3 py-2 rounded-md text-sm font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-50"
+              >
+                <Archive className="h-5 w-5 mr-2" />
+                Retention
+              </Link>
+            </Can>
             <Link
               to="/profile"
               className="flex items-center px-3 py-2 rounded-md text-sm font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-50"
             >
-              <UserCircle className="h-5 w-5 mr-2" />
+              <Avatar profile={profile} className="h-6 w-6 text-[10px] mr-2" />
               Profile
             </Link>
             <button
@@ -0,0 +1,143 @@
+import { useEffect, useRef, useState } from 'react';
+import { Bell, ShieldAlert } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { useNotifications } from '../hooks/useNotifications';
+import toast from 'react-hot-toast';
+import type { Notification } from '../lib/types';
+
+export default function NotificationBell() {
+  const { user } = useAuth();
+  const { notifications, unreadCount, markRead } = useNotifications();
+  const [open, setOpen] = useState(false);
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  const [reportedIds, setReportedIds] = useState<string[]>([]);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+    };
+  }, [open]);
+
+  const handleReport = async (notification: Notification) => {
+    if (!user?.email) return;
+
+    setReportingId(notification.id);
+    const { error } = await supabase.rpc('report_unrecognized_login', {
+      p_notification_id: notification.id,
+    });
+
+    if (error) {
+      setReportingId(null);
+      toast.error('Failed to secure your account');
+      return;
+    }
+
+    const { error: resetError } = await supabase.auth.resetPasswordForEmail(user.email, {
+      redirectTo: `${window.location.origin}/reset-password`,
+    });
+    setReportingId(null);
+    setReportedIds((current) => [...current, notification.id]);
+    await markRead([notification.id]);
+
+    if (resetError) {
+      toast.error('Other sessions were signed out, but the password reset email could not be sent');
+      return;
+    }
+
+    toast.success('Other sessions were signed out. Check your email to reset your password.');
+  };
+
+  const unreadIds = notifications.filter((notification) => !notification.read_at).map((notification) => notification.id);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((current) => !current)}
+        className="relative flex items-center p-2 rounded-md text-gray-700 hover:text-gray-900 hover:bg-gray-50"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-[1rem] items-center justify-center rounded-full bg-red-600 px-1 text-[10px] font-semibold text-white">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-10 mt-2 w-96 rounded-md bg-white shadow-lg ring-1 ring-black ring-opacity-5">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <h3 className="text-sm font-medium text-gray-900">Notifications</h3>
+            {unreadIds.length > 0 && (
+              <button
+                type="button"
+                onClick={() => markRead(unreadIds)}
+                className="text-xs font-medium text-indigo-600 hover:text-indigo-500"
+              >
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          {notifications.length > 0 ? (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-200">
+              {notifications.map((notification) => (
+                <li
+                  key={notification.id}
+                  onClick={() => markRead([notification.id])}
+                  className={`px-4 py-3 ${notification.read_at ? 'bg-white' : 'bg-indigo-50'}`}
+                >
+                  <div className="flex items-start">
+                    <ShieldAlert
+                      className={`h-5 w-5 mr-3 flex-shrink-0 ${
+                        notification.type === 'suspicious_login' ? 'text-red-500' : 'text-yellow-500'
+                      }`}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                      {notification.body && (
+                        <p className="text-sm text-gray-500 break-words">{notification.body}</p>
+                      )}
+                      <p className="mt-1 text-xs text-gray-400">
+                        {new Date(notification.created_at).toLocaleString()}
+                      </p>
+                      {reportedIds.includes(notification.id) ? (
+                        <p className="mt-2 text-xs text-gray-500">Reported. Other sessions were signed out.</p>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            handleReport(notification);
+                          }}
+                          disabled={reportingId !== null}
+                          className="mt-2 px-2 py-1 border border-red-300 rounded-md text-xs font-medium text-red-700 bg-white hover:bg-red-50 disabled:opacity-50"
+                        >
+                          {reportingId === notification.id ? 'Securing account...' : "This wasn't me"}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">You have no notifications.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
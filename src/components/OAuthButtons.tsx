@@ -0,0 +1,54 @@
+import { useState } from 'react';
+import { Github, Gitlab, KeyRound } from 'lucide-react';
+import type { Provider } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { describeProvider, oauthProviders } from '../lib/authMethods';
+import toast from 'react-hot-toast';
+
+const providerIcons: Partial<Record<Provider, typeof KeyRound>> = {
+  github: Github,
+  gitlab: Gitlab,
+};
+
+export default function OAuthButtons() {
+  const [redirecting, setRedirecting] = useState<Provider | null>(null);
+
+  if (oauthProviders.length === 0) return null;
+
+  const handleSignIn = async (provider: Provider) => {
+    setRedirecting(provider);
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider,
+      options: {
+        redirectTo: `${window.location.origin}/auth/callback`,
+      },
+    });
+
+    // On success the browser is already leaving for the provider
+    if (error) {
+      setRedirecting(null);
+      toast.error(`Failed to sign in with ${describeProvider(provider)}`);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {oauthProviders.map((provider) => {
+        const Icon = providerIcons[provider] ?? KeyRound;
+
+        return (
+          <button
+            key={provider}
+            type="button"
+            onClick={() => handleSignIn(provider)}
+            disabled={redirecting !== null}
+            className="w-full flex items-center justify-center py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Icon className="h-5 w-5 mr-2" />
+            {redirecting === provider ? 'Redirecting...' : `Continue with ${describeProvider(provider)}`}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
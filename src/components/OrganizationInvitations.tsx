@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Building2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useOrganizations } from '../hooks/useOrganizations';
+import toast from 'react-hot-toast';
+import type { OrganizationInvitation } from '../lib/types';
+
+// Organizations that have invited the user; nothing is shared with them
+// until the user accepts
+export default function OrganizationInvitations() {
+  const { invitations, refreshOrganizations, switchOrganization } = useOrganizations();
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+
+  if (invitations.length === 0) return null;
+
+  const respond = async (invitation: OrganizationInvitation, accept: boolean) => {
+    setRespondingId(invitation.id);
+    const { error } = await supabase.rpc('respond_to_organization_invitation', {
+      p_invitation_id: invitation.id,
+      p_accept: accept,
+    });
+    setRespondingId(null);
+
+    if (error) {
+      toast.error(error.message);
+      await refreshOrganizations();
+      return;
+    }
+
+    await refreshOrganizations();
+
+    if (accept) {
+      switchOrganization(invitation.organization_id);
+      toast.success(`You joined ${invitation.organization_name}`);
+    } else {
+      toast.success(`Invitation to ${invitation.organization_name} declined`);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h2 className="text-lg font-medium text-gray-900 mb-1">Organization invitations</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Organization owners and admins can see your sign-in history and profile changes.
+      </p>
+      <ul className="divide-y divide-gray-200">
+        {invitations.map((invitation) => (
+          <li key={invitation.id} className="flex items-center justify-between py-3">
+            <div className="flex items-center">
+              <Building2 className="h-5 w-5 mr-3 text-gray-400" />
+              <div>
+                <p className="text-sm font-medium text-gray-900">{invitation.organization_name}</p>
+                <p className="text-xs text-gray-500">
+                  Invited as {invitation.organization_role}
+                  {invitation.invited_by_name ? ` by ${invitation.invited_by_name}` : ''}, expires{' '}
+                  {new Date(invitation.expires_at).toLocaleDateString()}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-3">
+              <button
+                type="button"
+                onClick={() => respond(invitation, false)}
+                disabled={respondingId !== null}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                Decline
+              </button>
+              <button
+                type="button"
+                onClick={() => respond(invitation, true)}
+                disabled={respondingId !== null}
+                className="px-3 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+              >
+                Accept
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
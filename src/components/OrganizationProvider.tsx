@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import { useRepositories } from '../hooks/useRepositories';
+import { OrganizationContext, type OrganizationContextValue } from '../hooks/useOrganizations';
+import type { OrganizationInvitation, OrganizationMembership } from '../lib/types';
+
+const CURRENT_ORGANIZATION_KEY = 'organization:current';
+
+// Loads the organizations the signed-in user belongs to and remembers which
+// one they are working in across reloads
+export default function OrganizationProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const { organizations } = useRepositories();
+  const [memberships, setMemberships] = useState<OrganizationMembership[]>([]);
+  const [invitations, setInvitations] = useState<OrganizationInvitation[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(() => localStorage.getItem(CURRENT_ORGANIZATION_KEY));
+  const [loading, setLoading] = useState(true);
+
+  const userId = user?.id ?? null;
+
+  const loadMemberships = useCallback(async (id: string): Promise<OrganizationMembership[]> => {
+    try {
+      return await organizations.listMemberships(id);
+    } catch (error) {
+      console.error('Failed to load organizations:', error);
+      return [];
+    }
+  }, [organizations]);
+
+  const loadInvitations = useCallback(async (): Promise<OrganizationInvitation[]> => {
+    try {
+      return await organizations.listMyInvitations();
+    } catch (error) {
+      console.error('Failed to load organization invitations:', error);
+      return [];
+    }
+  }, [organizations]);
+
+  const refreshOrganizations = useCallback(async () => {
+    if (!userId) return;
+
+    const [nextMemberships, nextInvitations] = await Promise.all([loadMemberships(userId), loadInvitations()]);
+    setMemberships(nextMemberships);
+    setInvitations(nextInvitations);
+  }, [userId, loadMemberships, loadInvitations]);
+
+  useEffect(() => {
+    if (!userId) {
+      setMemberships([]);
+      setInvitations([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    Promise.all([loadMemberships(userId), loadInvitations()]).then(([nextMemberships, nextInvitations]) => {
+      if (cancelled) return;
+      setMemberships(nextMemberships);
+      setInvitations(nextInvitations);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, loadMemberships, loadInvitations]);
+
+  const switchOrganization = useCallback((organizationId: string) => {
+    localStorage.setItem(CURRENT_ORGANIZATION_KEY, organizationId);
+    setCurrentId(organizationId);
+  }, []);
+
+  const value = useMemo<OrganizationContextValue>(() => {
+    // A remembered organization the user has since left falls back to the first
+    const current = memberships.find((membership) => membership.organization.id === currentId) ?? memberships[0] ?? null;
+
+    return {
+      memberships,
+      invitations,
+      current,
+      isOrganizationAdmin: current?.role === 'owner' || current?.role === 'admin',
+      loading,
+      switchOrganization,
+      refreshOrganizations,
+    };
+  }, [memberships, invitations, currentId, loading, switchOrganization, refreshOrganizations]);
+
+  return <OrganizationContext.Provider value={value}>{children}</OrganizationContext.Provider>;
+}
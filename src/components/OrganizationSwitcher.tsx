@@ -0,0 +1,55 @@
+import { Link, useNavigate } from 'react-router-dom';
+import { Building2, Plus } from 'lucide-react';
+import { useOrganizations } from '../hooks/useOrganizations';
+
+const NEW_ORGANIZATION = 'new';
+
+export default function OrganizationSwitcher() {
+  const navigate = useNavigate();
+  const { memberships, current, loading, switchOrganization } = useOrganizations();
+
+  if (loading) return null;
+
+  if (!current) {
+    return (
+      <Link
+        to="/organizations/new"
+        className="flex items-center px-3 py-2 rounded-md text-sm font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-50"
+      >
+        <Plus className="h-5 w-5 mr-2" />
+        Create organization
+      </Link>
+    );
+  }
+
+  const handleChange = (value: string) => {
+    if (value === NEW_ORGANIZATION) {
+      navigate('/organizations/new');
+      return;
+    }
+
+    switchOrganization(value);
+  };
+
+  return (
+    <div className="flex items-center">
+      <Building2 className="h-5 w-5 mr-2 text-gray-500" />
+      <label htmlFor="organization-switcher" className="sr-only">
+        Organization
+      </label>
+      <select
+        id="organization-switcher"
+        value={current.organization.id}
+        onChange={(event) => handleChange(event.target.value)}
+        className="block max-w-[12rem] px-3 py-1.5 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+      >
+        {memberships.map(({ organization }) => (
+          <option key={organization.id} value={organization.id}>
+            {organization.name}
+          </option>
+        ))}
+        <option value={NEW_ORGANIZATION}>New organization...</option>
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { passwordStrength, type PasswordScore } from '../lib/password';
+
+const levels: Record<PasswordScore, { label: string; color: string }> = {
+  0: { label: 'Very weak', color: 'bg-red-500' },
+  1: { label: 'Weak', color: 'bg-orange-500' },
+  2: { label: 'Fair', color: 'bg-yellow-500' },
+  3: { label: 'Strong', color: 'bg-green-500' },
+  4: { label: 'Very strong', color: 'bg-green-600' },
+};
+
+interface PasswordStrengthMeterProps {
+  password: string | undefined;
+}
+
+export default function PasswordStrengthMeter({ password }: PasswordStrengthMeterProps) {
+  if (!password) return null;
+
+  const { score, entropyBits, common } = passwordStrength(password);
+  const level = levels[score];
+
+  return (
+    <div className="mt-2" aria-live="polite">
+      <div className="flex space-x-1">
+        {[1, 2, 3, 4].map((segment) => (
+          <div
+            key={segment}
+            className={`h-1.5 flex-1 rounded-full ${score >= segment ? level.color : 'bg-gray-200'}`}
+          />
+        ))}
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        {common ? 'Very weak: this is a commonly used password' : `${level.label} (about ${entropyBits} bits)`}
+      </p>
+    </div>
+  );
+}
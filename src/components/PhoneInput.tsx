@@ -0,0 +1,72 @@
+import { useEffect, useRef, useState } from 'react';
+import { countries, defaultCountry, parseE164, toE164, type Country } from '../lib/phone';
+
+interface PhoneInputProps {
+  id?: string;
+  value?: string;
+  onChange: (value: string) => void;
+  onBlur?: () => void;
+}
+
+// Country picker plus national number; reports the combined E.164 value
+export default function PhoneInput({ id, value = '', onChange, onBlur }: PhoneInputProps) {
+  const [country, setCountry] = useState<Country>(defaultCountry);
+  const [nationalNumber, setNationalNumber] = useState('');
+  const emitted = useRef<string | null>(null);
+
+  // Follow values set from outside, such as a form reset after loading
+  useEffect(() => {
+    if (value === emitted.current) return;
+    emitted.current = value;
+
+    const parsed = value ? parseE164(value) : null;
+    if (parsed) {
+      setCountry(parsed.country);
+      setNationalNumber(parsed.nationalNumber);
+    } else {
+      setNationalNumber(value.replace(/^\+/, ''));
+    }
+  }, [value]);
+
+  const emit = (next: string) => {
+    emitted.current = next;
+    onChange(next);
+  };
+
+  const handleCountryChange = (code: string) => {
+    const next = countries.find((option) => option.code === code) ?? country;
+    setCountry(next);
+    emit(toE164(next, nationalNumber));
+  };
+
+  const handleNumberChange = (input: string) => {
+    setNationalNumber(input);
+    emit(toE164(country, input));
+  };
+
+  return (
+    <div className="flex rounded-md shadow-sm">
+      <select
+        value={country.code}
+        onChange={(event) => handleCountryChange(event.target.value)}
+        aria-label="Country code"
+        className="block px-3 py-2 border border-gray-300 rounded-l-md bg-gray-50 text-gray-700 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+      >
+        {countries.map((option) => (
+          <option key={option.code} value={option.code}>
+            {option.code} +{option.dialCode}
+          </option>
+        ))}
+      </select>
+      <input
+        id={id}
+        type="tel"
+        autoComplete="tel-national"
+        value={nationalNumber}
+        onChange={(event) => handleNumberChange(event.target.value)}
+        onBlur={onBlur}
+        className="appearance-none block w-full px-3 py-2 border border-l-0 border-gray-300 rounded-r-md placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { CheckCircle, Smartphone } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import toast from 'react-hot-toast';
+import type { Profile } from '../lib/types';
+
+interface PhoneVerificationProps {
+  profile: Profile;
+  onVerified: () => void;
+}
+
+export default function PhoneVerification({ profile, onVerified }: PhoneVerificationProps) {
+  const [codeSent, setCodeSent] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [code, setCode] = useState('');
+
+  if (!profile.phone_number) return null;
+
+  if (profile.phone_verified_at) {
+    return (
+      <p className="flex items-center text-sm text-green-700">
+        <CheckCircle className="h-4 w-4 mr-2" />
+        {profile.phone_number} verified on {new Date(profile.phone_verified_at).toLocaleDateString()}
+      </p>
+    );
+  }
+
+  const handleSend = async () => {
+    setSending(true);
+    const { error } = await supabase.functions.invoke('send-phone-otp');
+    setSending(false);
+
+    if (error) {
+      toast.error(
+        error instanceof FunctionsHttpError && error.context.status === 429
+          ? 'A code was sent recently. Please wait a minute and try again.'
+          : 'Failed to send verification code'
+      );
+      return;
+    }
+
+    setCodeSent(true);
+    toast.success(`Code sent to ${profile.phone_number}`);
+  };
+
+  const handleVerify = async () => {
+    setVerifying(true);
+    const { data: verified, error } = await supabase.rpc('verify_phone', { p_code: code });
+    setVerifying(false);
+
+    if (error) {
+      toast.error('Failed to verify phone number');
+      return;
+    }
+
+    if (!verified) {
+      toast.error('That code is incorrect or has expired');
+      return;
+    }
+
+    setCode('');
+    setCodeSent(false);
+    toast.success('Phone number verified');
+    onVerified();
+  };
+
+  return (
+    <div className="rounded-md bg-yellow-50 p-4">
+      <div className="flex">
+        <Smartphone className="h-5 w-5 text-yellow-400 flex-shrink-0" />
+        <div className="ml-3 flex-1">
+          <p className="text-sm text-yellow-800">
+            {profile.phone_number} has not been verified.
+          </p>
+          {codeSent ? (
+            <div className="mt-3 flex space-x-3">
+              <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                maxLength={6}
+                value={code}
+                onChange={(event) => setCode(event.target.value.replace(/\D/g, ''))}
+                placeholder="123456"
+                className="appearance-none block w-32 px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              />
+              <button
+                type="button"
+                onClick={handleVerify}
+                disabled={verifying || code.length !== 6}
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {verifying ? 'Verifying...' : 'Verify'}
+              </button>
+              <button
+                type="button"
+                onClick={handleSend}
+                disabled={sending}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                Resend
+              </button>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={handleSend}
+              disabled={sending}
+              className="mt-3 px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              {sending ? 'Sending...' : 'Send verification code'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useRepositories } from '../hooks/useRepositories';
+import { useHighlight } from '../hooks/useHighlight';
+import { downloadFile, endOfDayIso, exportFilename, startOfDayIso, toCsv } from '../lib/export';
+import Pagination from './Pagination';
+import SortableHeader, { type SortState } from './SortableHeader';
+import ExportButtons from './ExportButtons';
+import toast from 'react-hot-toast';
+import type { ProfileChangeFilter, ProfileChangeSortColumn } from '../lib/repositories/types';
+import type { ProfileChange } from '../lib/types';
+
+const PAGE_SIZE = 10;
+const EXPORT_BATCH_SIZE = 1000;
+
+const fieldOptions = ['first_name', 'last_name', 'phone_number', 'phone_verified_at', 'avatar_url', 'email', 'password'];
+
+interface ProfileChangesTableProps {
+  userId: string;
+  // Bump to reload after a change made elsewhere on the page
+  refreshKey?: number;
+}
+
+export default function ProfileChangesTable({ userId, refreshKey = 0 }: ProfileChangesTableProps) {
+  const { audit } = useRepositories();
+  const [rows, setRows] = useState<ProfileChange[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [field, setField] = useState('');
+  const [sort, setSort] = useState<SortState<ProfileChangeSortColumn>>({ column: 'change_timestamp', ascending: false });
+  // Bumped when a change arrives over realtime
+  const [liveVersion, setLiveVersion] = useState(0);
+  const { highlight, isHighlighted } = useHighlight();
+
+  const filter = useMemo<ProfileChangeFilter>(() => ({
+    from: from ? startOfDayIso(from) : undefined,
+    to: to ? endOfDayIso(to) : undefined,
+    field: field || undefined,
+  }), [from, to, field]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    audit
+      .listProfileChanges(userId, { filter, sort, offset: page * PAGE_SIZE, limit: PAGE_SIZE })
+      .then(({ rows, total }) => {
+        if (cancelled) return;
+        setRows(rows);
+        setTotal(total);
+      })
+      .catch(() => {
+        if (!cancelled) toast.error('Failed to load profile changes');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [audit, userId, filter, sort, page, refreshKey, liveVersion]);
+
+  // Reloaded like LoginHistoryTable, so changes made in another tab or by an
+  // admin show up at the top of the default view
+  useEffect(() => audit.subscribeProfileChanges(userId, (change) => {
+    highlight(change.id);
+    setLiveVersion((current) => current + 1);
+  }), [audit, userId, highlight]);
+
+  const handleSort = (next: SortState<ProfileChangeSortColumn>) => {
+    setSort(next);
+    setPage(0);
+  };
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    const all: ProfileChange[] = [];
+
+    try {
+      for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+        const { rows: batch } = await audit.listProfileChanges(userId, { filter, sort, offset, limit: EXPORT_BATCH_SIZE });
+
+        all.push(...batch);
+        if (batch.length < EXPORT_BATCH_SIZE) break;
+      }
+    } catch {
+      toast.error('Failed to export profile changes');
+      return;
+    }
+
+    if (format === 'json') {
+      downloadFile(exportFilename('profile-changes', 'json'), JSON.stringify(all, null, 2), 'application/json');
+      return;
+    }
+
+    const csv = toCsv(all, [
+      { header: 'Field', value: (row) => row.field_changed },
+      { header: 'Old Value', value: (row) => row.old_value },
+      { header: 'New Value', value: (row) => row.new_value },
+      { header: 'Changed At', value: (row) => row.change_timestamp },
+      { header: 'Changed By', value: (row) => row.changed_by },
+    ]);
+    downloadFile(exportFilename('profile-changes', 'csv'), csv, 'text/csv');
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-500">From</label>
+            <input
+              type="date"
+              value={from}
+              onChange={(event) => { setFrom(event.target.value); setPage(0); }}
+              className="mt-1 block px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500">To</label>
+            <input
+              type="date"
+              value={to}
+              onChange={(event) => { setTo(event.target.value); setPage(0); }}
+              className="mt-1 block px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500">Field changed</label>
+            <select
+              value={field}
+              onChange={(event) => { setField(event.target.value); setPage(0); }}
+              className="mt-1 block px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              <option value="">All fields</option>
+              {fieldOptions.map((option) => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <ExportButtons onExport={handleExport} />
+      </div>
+
+      {total > 0 ? (
+        <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 sm:rounded-lg">
+          <table className="min-w-full divide-y divide-gray-300">
+            <thead className="bg-gray-50">
+              <tr>
+                <SortableHeader
+                  label="Field"
+                  column="field_changed"
+                  sort={sort}
+                  onSort={handleSort}
+                  className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900"
+                />
+                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Old Value</th>
+                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">New Value</th>
+                <SortableHeader label="Changed At" column="change_timestamp" sort={sort} onSort={handleSort} />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {rows.map((change) => (
+                <tr
+                  key={change.id}
+                  className={`transition-colors duration-1000 ${isHighlighted(change.id) ? 'bg-yellow-50' : ''}`}
+                >
+                  <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm text-gray-900">{change.field_changed}</td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{change.old_value || '-'}</td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{change.new_value || '-'}</td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                    {new Date(change.change_timestamp).toLocaleString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <Pagination page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} />
+        </div>
+      ) : (
+        <p className="text-gray-500 text-sm">No profile changes match these filters.</p>
+      )}
+    </div>
+  );
+}
@@ -1,25 +1,54 @@
 import React from 'react';
 import { Navigate, Outlet } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
+import { useSessionGuard } from '../hooks/useSessionGuard';
+import { useIdleTimeout } from '../hooks/useIdleTimeout';
+import { useControlChannel } from '../hooks/useControlChannel';
+import { checkAccess } from '../lib/access';
 import Navbar from './Navbar';
+import LoadingScreen from './LoadingScreen';
+import IdleTimeoutModal from './IdleTimeoutModal';
+import Forbidden from '../pages/Forbidden';
+import type { AppRole, Permission } from '../lib/types';
 
-export default function ProtectedRoute() {
-  const { user, loading } = useAuth();
+interface ProtectedRouteProps {
+  requireRole?: AppRole;
+  requirePermission?: Permission;
+  requireMfa?: boolean;
+}
+
+export default function ProtectedRoute({ requireRole, requirePermission, requireMfa }: ProtectedRouteProps) {
+  const auth = useAuth();
+  const { user, mfaRequired, loading } = auth;
+  useSessionGuard(!!user);
+  useControlChannel(!!user);
+  const idle = useIdleTimeout(!!user);
 
   if (loading) {
-    return <div>Loading...</div>;
+    return <LoadingScreen />;
   }
 
   if (!user) {
-    return <Navigate to="/login" replace />;
+    return <Navigate to={idle.timedOut ? '/login?reason=idle' : '/login'} replace />;
+  }
+
+  // Users with an enrolled authenticator must complete the TOTP challenge
+  if (mfaRequired) {
+    return <Navigate to="/mfa" replace />;
   }
 
+  // Signed in but not allowed here: explain rather than bounce to /login
+  const denial = checkAccess(auth, { role: requireRole, permission: requirePermission, mfa: requireMfa });
+
   return (
     <div>
       <Navbar />
       <main className="container mx-auto px-4 py-8">
-        <Outlet />
+        {denial ? <Forbidden reason={denial} /> : <Outlet />}
       </main>
+      {idle.remainingMs !== null && (
+        <IdleTimeoutModal remainingMs={idle.remainingMs} onStaySignedIn={idle.staySignedIn} />
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
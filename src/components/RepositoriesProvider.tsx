@@ -0,0 +1,10 @@
+import type { ReactNode } from 'react';
+import { supabase } from '../lib/supabase';
+import { createSupabaseRepositories } from '../lib/repositories/supabase';
+import { RepositoriesContext } from '../hooks/useRepositories';
+
+const supabaseRepositories = createSupabaseRepositories(supabase);
+
+export default function RepositoriesProvider({ children }: { children: ReactNode }) {
+  return <RepositoriesContext.Provider value={supabaseRepositories}>{children}</RepositoriesContext.Provider>;
+}
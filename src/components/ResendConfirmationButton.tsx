@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import toast from 'react-hot-toast';
+
+const RESEND_COOLDOWN_SECONDS = 60;
+
+interface ResendConfirmationButtonProps {
+  email: string;
+  // Start cooling down immediately when an email has just been sent
+  sentJustNow?: boolean;
+}
+
+export default function ResendConfirmationButton({ email, sentJustNow = false }: ResendConfirmationButtonProps) {
+  const [cooldown, setCooldown] = useState(sentJustNow ? RESEND_COOLDOWN_SECONDS : 0);
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+
+    const timeout = window.setTimeout(() => setCooldown((current) => current - 1), 1000);
+    return () => {
+      window.clearTimeout(timeout);
+    };
+  }, [cooldown]);
+
+  const handleResend = async () => {
+    setSending(true);
+    const { error } = await supabase.auth.resend({
+      type: 'signup',
+      email,
+      options: {
+        emailRedirectTo: `${window.location.origin}/auth/callback`,
+      },
+    });
+    setSending(false);
+
+    if (error) {
+      toast.error(
+        error.code === 'over_email_send_rate_limit'
+          ? 'Too many emails sent. Please wait a few minutes and try again.'
+          : 'Failed to resend the confirmation email'
+      );
+      return;
+    }
+
+    setCooldown(RESEND_COOLDOWN_SECONDS);
+    toast.success('Confirmation email sent');
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleResend}
+      disabled={sending || cooldown > 0}
+      className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+    >
+      {sending
+        ? 'Sending...'
+        : cooldown > 0
+          ? `Resend email in ${cooldown}s`
+          : 'Resend confirmation email'}
+    </button>
+  );
+}
@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import { useRepositories } from '../hooks/useRepositories';
+import toast from 'react-hot-toast';
+
+// Whether new accounts need an invitation; shown to users with settings:manage
+export default function SignupSettings() {
+  const { settings } = useRepositories();
+  const [inviteOnly, setInviteOnly] = useState<boolean | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    settings.getInviteOnly().then(
+      (value) => {
+        if (!cancelled) setInviteOnly(value);
+      },
+      () => {
+        if (!cancelled) toast.error('Failed to load sign-up settings');
+      }
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [settings]);
+
+  const handleChange = async (next: boolean) => {
+    setSaving(true);
+
+    try {
+      await settings.setInviteOnly(next);
+      setInviteOnly(next);
+      toast.success(next ? 'Sign-ups now need an invitation' : 'Anyone can now sign up');
+    } catch {
+      toast.error('Failed to update sign-up settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (inviteOnly === null) return null;
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h2 className="text-2xl font-semibold text-gray-900 mb-2">Sign-ups</h2>
+      <label className="flex items-start space-x-3">
+        <input
+          type="checkbox"
+          checked={inviteOnly}
+          disabled={saving}
+          onChange={(event) => handleChange(event.target.checked)}
+          className="mt-1 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        <span className="text-sm text-gray-700">
+          Require an invitation to sign up
+          <span className="block text-gray-500">
+            When this is off, anyone can create an account from the sign-up page.
+          </span>
+        </span>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { ChevronDown, ChevronUp, ChevronsUpDown } from 'lucide-react';
+
+export interface SortState<T extends string> {
+  column: T;
+  ascending: boolean;
+}
+
+interface SortableHeaderProps<T extends string> {
+  label: string;
+  column: T;
+  sort: SortState<T>;
+  onSort: (sort: SortState<T>) => void;
+  className?: string;
+}
+
+export default function SortableHeader<T extends string>({ label, column, sort, onSort, className }: SortableHeaderProps<T>) {
+  const active = sort.column === column;
+  const Icon = active ? (sort.ascending ? ChevronUp : ChevronDown) : ChevronsUpDown;
+
+  return (
+    <th className={className ?? 'px-3 py-3.5 text-left text-sm font-semibold text-gray-900'}>
+      <button
+        type="button"
+        onClick={() => onSort({ column, ascending: active ? !sort.ascending : false })}
+        className="group inline-flex items-center"
+      >
+        {label}
+        <Icon className={`ml-1 h-4 w-4 ${active ? 'text-gray-700' : 'text-gray-400 group-hover:text-gray-500'}`} />
+      </button>
+    </th>
+  );
+}
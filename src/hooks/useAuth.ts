@@ -1,28 +1,41 @@
-import { useEffect, useState } from 'react';
-import { supabase } from '../lib/supabase';
-import type { User } from '@supabase/supabase-js';
+import { createContext, useContext } from 'react';
+import type { AuthenticatorAssuranceLevels, Session, SignOut, User } from '@supabase/supabase-js';
+import type { AppRole, Permission, Profile } from '../lib/types';
 
-export function useAuth() {
-  const [user, setUser] = useState<User | null>(null);
-  const [loading, setLoading] = useState(true);
+export interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  profile: Profile | null;
+  roles: AppRole[];
+  // Everything the user's roles grant, from role_permissions
+  permissions: Permission[];
+  // Whether the role or permission is in effect, which needs an AAL2 session
+  hasRole: (role: AppRole) => boolean;
+  hasPermission: (permission: Permission) => boolean;
+  // Holds staff permissions this session can't use until it passes a second factor
+  staffMfaPending: boolean;
+  currentLevel: AuthenticatorAssuranceLevels | null;
+  nextLevel: AuthenticatorAssuranceLevels | null;
+  // A verified authenticator exists, whether or not this session used it
+  mfaEnabled: boolean;
+  // Signed in with a password but still owing the second factor
+  mfaRequired: boolean;
+  // True until the session and, when signed in, the user's data have loaded
+  loading: boolean;
+  refreshProfile: () => Promise<Profile | null>;
+  refreshAccess: () => Promise<void>;
+  refreshMfa: () => Promise<void>;
+  signOut: (options?: SignOut) => Promise<void>;
+}
 
-  useEffect(() => {
-    // Get initial session
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setUser(session?.user ?? null);
-      setLoading(false);
-    });
+export const AuthContext = createContext<AuthContextValue | null>(null);
 
-    // Listen for auth changes
-    const {
-      data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
-      setUser(session?.user ?? null);
-      setLoading(false);
-    });
+export function useAuth() {
+  const context = useContext(AuthContext);
 
-    return () => subscription.unsubscribe();
-  }, []);
+  if (!context) {
+    throw new Error('useAuth must be used inside an AuthProvider');
+  }
 
-  return { user, loading };
-}
\ No newline at end of file
+  return context;
+}
@@ -0,0 +1,6 @@
+import { useAuth } from './useAuth';
+import { checkAccess, type AccessRequirement } from '../lib/access';
+
+export function useCan(requirement: AccessRequirement) {
+  return checkAccess(useAuth(), requirement) === null;
+}
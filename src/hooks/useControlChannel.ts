@@ -0,0 +1,45 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { decodeAccessToken } from '../lib/jwt';
+import { useAuth } from './useAuth';
+import { useOrganizations } from './useOrganizations';
+import toast from 'react-hot-toast';
+
+// Database triggers broadcast on the user's private control topic when one of
+// their sessions is deleted or their access changes. Every open tab holds its
+// own subscription, so they all react at once instead of on the next poll.
+export function useControlChannel(enabled: boolean) {
+  const navigate = useNavigate();
+  const { user, session, signOut, refreshAccess } = useAuth();
+  const { refreshOrganizations } = useOrganizations();
+
+  const userId = enabled ? user?.id : undefined;
+  const sessionId = session ? decodeAccessToken(session.access_token)?.session_id : undefined;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`user:${userId}:control`, { config: { private: true } })
+      .on('broadcast', { event: 'session_revoked' }, async ({ payload }) => {
+        // Other sessions of the same user are none of this tab's business
+        if (!sessionId || payload?.session_id !== sessionId) return;
+
+        await signOut({ scope: 'local' });
+        toast.error('You were signed out from another device.');
+        navigate('/login', { replace: true });
+      })
+      .on('broadcast', { event: 'access_changed' }, () => {
+        refreshAccess();
+      })
+      .on('broadcast', { event: 'organizations_changed' }, () => {
+        refreshOrganizations();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, sessionId, navigate, signOut, refreshAccess, refreshOrganizations]);
+}
@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const HIGHLIGHT_MS = 4000;
+
+// Marks rows that arrived live so the table can flash them briefly
+export function useHighlight() {
+  const [ids, setIds] = useState<string[]>([]);
+  const timeouts = useRef<number[]>([]);
+
+  useEffect(() => {
+    const pending = timeouts.current;
+    return () => pending.forEach((timeout) => window.clearTimeout(timeout));
+  }, []);
+
+  const highlight = useCallback((id: string) => {
+    setIds((current) => [...current, id]);
+    timeouts.current.push(
+      window.setTimeout(() => setIds((current) => current.filter((entry) => entry !== id)), HIGHLIGHT_MS)
+    );
+  }, []);
+
+  const isHighlighted = useCallback((id: string) => ids.includes(id), [ids]);
+
+  return { highlight, isHighlighted };
+}
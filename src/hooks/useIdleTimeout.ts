@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { TIMED_OUT_KEY, idleTimeoutMs, idleWarningMs, readLastActivity, writeLastActivity } from '../lib/idle';
+import { useAuth } from './useAuth';
+
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart'] as const;
+// Activity is written at most this often to keep localStorage quiet
+const ACTIVITY_WRITE_INTERVAL_MS = 5 * 1000;
+const TICK_MS = 1000;
+
+// Signs the user out after a period with no activity in any tab. While the
+// warning is showing only staySignedIn() counts as activity, so a stray mouse
+// movement can't dismiss it.
+export function useIdleTimeout(enabled: boolean) {
+  const { signOut } = useAuth();
+  // Time left while the warning is due, otherwise null
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+  const [timedOut, setTimedOut] = useState(false);
+  const warning = useRef(false);
+  const lastWrite = useRef(0);
+  const signingOut = useRef(false);
+
+  const active = enabled && idleTimeoutMs > 0;
+
+  const recordActivity = useCallback(() => {
+    const now = Date.now();
+    lastWrite.current = now;
+    writeLastActivity(now);
+  }, []);
+
+  const staySignedIn = useCallback(() => {
+    warning.current = false;
+    recordActivity();
+    setRemainingMs(null);
+  }, [recordActivity]);
+
+  const timeOut = useCallback(async (lastActivity: number) => {
+    if (signingOut.current) return;
+    signingOut.current = true;
+
+    // Every open tab reaches the same deadline; the first one records it
+    const alreadyRecorded = localStorage.getItem(TIMED_OUT_KEY) === String(lastActivity);
+    localStorage.setItem(TIMED_OUT_KEY, String(lastActivity));
+    setTimedOut(true);
+
+    if (!alreadyRecorded) {
+      const { error } = await supabase.rpc('record_security_event', {
+        p_event_type: 'session_timeout',
+        p_details: { idle_minutes: idleTimeoutMs / 60000 },
+      });
+
+      if (error) {
+        console.error('Failed to record session timeout:', error);
+      }
+    }
+
+    // Retried on the next tick if the sign-out request fails
+    await signOut({ scope: 'local' });
+    signingOut.current = false;
+  }, [signOut]);
+
+  useEffect(() => {
+    if (!active) return;
+
+    // A fresh sign-in or page load is activity, and clears any stale timestamp
+    recordActivity();
+
+    const handleActivity = () => {
+      if (warning.current || Date.now() - lastWrite.current < ACTIVITY_WRITE_INTERVAL_MS) return;
+      recordActivity();
+    };
+
+    const tick = () => {
+      const lastActivity = readLastActivity() ?? lastWrite.current;
+      const remaining = lastActivity + idleTimeoutMs - Date.now();
+
+      if (remaining <= 0) {
+        timeOut(lastActivity);
+        return;
+      }
+
+      warning.current = remaining <= idleWarningMs;
+      setRemainingMs(warning.current ? remaining : null);
+    };
+
+    // Another tab timed out first and is signing the shared session out
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === TIMED_OUT_KEY) {
+        setTimedOut(true);
+      }
+    };
+
+    const interval = setInterval(tick, TICK_MS);
+    ACTIVITY_EVENTS.forEach((name) => window.addEventListener(name, handleActivity, { passive: true }));
+    window.addEventListener('storage', handleStorage);
+
+    return () => {
+      clearInterval(interval);
+      ACTIVITY_EVENTS.forEach((name) => window.removeEventListener(name, handleActivity));
+      window.removeEventListener('storage', handleStorage);
+      warning.current = false;
+      setRemainingMs(null);
+    };
+  }, [active, recordActivity, timeOut]);
+
+  return { remainingMs, timedOut, staySignedIn };
+}
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from './useAuth';
+import { useRepositories } from './useRepositories';
+import type { Notification } from '../lib/types';
+
+const NOTIFICATION_LIMIT = 20;
+const POLL_INTERVAL_MS = 60_000;
+
+export function useNotifications() {
+  const { user } = useAuth();
+  const { notifications: notificationsRepo } = useRepositories();
+  const userId = user?.id;
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+
+  const reload = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      setNotifications(await notificationsRepo.listRecent(userId, NOTIFICATION_LIMIT));
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+    }
+  }, [userId, notificationsRepo]);
+
+  useEffect(() => {
+    if (!userId) {
+      setNotifications([]);
+      return;
+    }
+
+    reload();
+    const interval = window.setInterval(reload, POLL_INTERVAL_MS);
+
+    return () => {
+      window.clearInterval(interval);
+    };
+  }, [userId, reload]);
+
+  const markRead = useCallback(async (ids: string[]) => {
+    if (ids.length === 0) return;
+
+    const readAt = new Date().toISOString();
+    try {
+      await notificationsRepo.markRead(ids, readAt);
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+      return;
+    }
+
+    setNotifications((current) =>
+      current.map((notification) =>
+        ids.includes(notification.id) && !notification.read_at
+          ? { ...notification, read_at: readAt }
+          : notification
+      )
+    );
+  }, [notificationsRepo]);
+
+  const unreadCount = notifications.filter((notification) => !notification.read_at).length;
+
+  return { notifications, unreadCount, markRead, reload };
+}
@@ -0,0 +1,27 @@
+import { createContext, useContext } from 'react';
+import type { OrganizationInvitation, OrganizationMembership } from '../lib/types';
+
+export interface OrganizationContextValue {
+  memberships: OrganizationMembership[];
+  // Invitations waiting for the user to accept or decline
+  invitations: OrganizationInvitation[];
+  // The organization picked in the switcher, or the first one the user is in
+  current: OrganizationMembership | null;
+  // Owner or admin of the current organization
+  isOrganizationAdmin: boolean;
+  loading: boolean;
+  switchOrganization: (organizationId: string) => void;
+  refreshOrganizations: () => Promise<void>;
+}
+
+export const OrganizationContext = createContext<OrganizationContextValue | null>(null);
+
+export function useOrganizations() {
+  const context = useContext(OrganizationContext);
+
+  if (!context) {
+    throw new Error('useOrganizations must be used inside an OrganizationProvider');
+  }
+
+  return context;
+}
@@ -0,0 +1,14 @@
+import { createContext, useContext } from 'react';
+import type { Repositories } from '../lib/repositories/types';
+
+export const RepositoriesContext = createContext<Repositories | null>(null);
+
+export function useRepositories() {
+  const context = useContext(RepositoriesContext);
+
+  if (!context) {
+    throw new Error('useRepositories must be used inside a RepositoriesProvider');
+  }
+
+  return context;
+}
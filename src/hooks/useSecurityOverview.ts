@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { decodeAccessToken } from '../lib/jwt';
+import { useAuth } from './useAuth';
+import { useRepositories } from './useRepositories';
+import type { LoginHistory, ProfileChange, SecurityEvent } from '../lib/types';
+
+const TIMELINE_LENGTH = 10;
+
+export type ActivityItem =
+  | { kind: 'login'; at: string; login: LoginHistory }
+  | { kind: 'profile_change'; at: string; change: ProfileChange }
+  | { kind: 'security_event'; at: string; event: SecurityEvent };
+
+export interface SecurityOverview {
+  lastLogin: LoginHistory | null;
+  failedSinceLastLogin: number;
+  mfaEnabled: boolean;
+  recoveryCodesRemaining: number;
+  profileLastChangedAt: string | null;
+  deletionScheduledFor: string | null;
+  activity: ActivityItem[];
+}
+
+export function useSecurityOverview() {
+  const { user } = useAuth();
+  const { loginHistory, audit, account } = useRepositories();
+  const userId = user?.id;
+  const [overview, setOverview] = useState<SecurityOverview | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+
+    const load = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      const currentSessionId = session ? decodeAccessToken(session.access_token)?.session_id : undefined;
+
+      const [successes, logins, changes, events, factors, recoveryCodes, deletion] = await Promise.all([
+        loginHistory.list(userId, { filter: { success: true }, limit: 2 }),
+        loginHistory.list(userId, { limit: TIMELINE_LENGTH }),
+        audit.listProfileChanges(userId, { limit: TIMELINE_LENGTH }),
+        audit.listSecurityEvents(userId, { limit: TIMELINE_LENGTH }),
+        supabase.auth.mfa.listFactors(),
+        supabase.rpc('recovery_codes_remaining'),
+        account.getPendingDeletion(userId),
+      ]);
+
+      // The newest success is usually the sign-in that created this session;
+      // the user wants to know about the one before it
+      const recentSuccesses = successes.rows;
+      const lastLogin = recentSuccesses[0]?.session_id === currentSessionId
+        ? recentSuccesses[1] ?? null
+        : recentSuccesses[0] ?? null;
+
+      const failedSinceLastLogin = await loginHistory.countFailures(userId, lastLogin?.login_timestamp);
+
+      const activity: ActivityItem[] = [
+        ...logins.rows.map((login): ActivityItem => ({ kind: 'login', at: login.login_timestamp, login })),
+        ...changes.rows.map((change): ActivityItem => ({ kind: 'profile_change', at: change.change_timestamp, change })),
+        ...events.rows.map((event): ActivityItem => ({ kind: 'security_event', at: event.created_at, event })),
+      ]
+        .sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime())
+        .slice(0, TIMELINE_LENGTH);
+
+      if (cancelled) return;
+
+      setOverview({
+        lastLogin,
+        failedSinceLastLogin,
+        mfaEnabled: (factors.data?.totp.length ?? 0) > 0,
+        recoveryCodesRemaining: recoveryCodes.data ?? 0,
+        profileLastChangedAt: changes.rows[0]?.change_timestamp ?? null,
+        deletionScheduledFor: deletion?.scheduled_for ?? null,
+        activity,
+      });
+      setLoading(false);
+    };
+
+    load().catch((error) => {
+      console.error('Failed to load security overview:', error);
+      if (!cancelled) setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, loginHistory, audit, account]);
+
+  return { overview, loading };
+}
@@ -0,0 +1,47 @@
+import { useCallback, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import toast from 'react-hot-toast';
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+// The database refuses requests from a revoked session, but the access token
+// itself stays valid until it expires, so periodically ask whether ours still
+// exists and sign out locally once it doesn't
+export function useSessionGuard(enabled: boolean) {
+  const navigate = useNavigate();
+  const { signOut } = useAuth();
+
+  const checkSession = useCallback(async () => {
+    const { data: active, error } = await supabase.rpc('current_session_active');
+
+    // A revoked session is refused before the function even runs
+    const revoked = error ? error.code === '42501' : !active;
+    if (!revoked) return;
+
+    await signOut({ scope: 'local' });
+    toast.error('You were signed out from another device.');
+    navigate('/login', { replace: true });
+  }, [navigate, signOut]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const interval = setInterval(checkSession, CHECK_INTERVAL_MS);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        checkSession();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('focus', checkSession);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('focus', checkSession);
+    };
+  }, [enabled, checkSession]);
+}
@@ -0,0 +1,24 @@
+import type { AuthContextValue } from '../hooks/useAuth';
+import type { AppRole, Permission } from './types';
+
+export interface AccessRequirement {
+  role?: AppRole;
+  permission?: Permission;
+  // The session must have passed a second factor (AAL2)
+  mfa?: boolean;
+}
+
+export type AccessDenial = 'role' | 'permission' | 'mfa';
+
+// Returns why access is denied, or null when every requirement is met.
+// Roles and permissions only take effect in a session that passed a second
+// factor, as is_admin() and has_permission() require, so a user who holds
+// them without one is told to verify rather than that they lack access.
+export function checkAccess(auth: AuthContextValue, requirement: AccessRequirement): AccessDenial | null {
+  if (requirement.role && !auth.roles.includes(requirement.role)) return 'role';
+  if (requirement.permission && !auth.permissions.includes(requirement.permission)) return 'permission';
+
+  const needsMfa = requirement.mfa || requirement.role !== undefined || requirement.permission !== undefined;
+  if (needsMfa && auth.currentLevel !== 'aal2') return 'mfa';
+  return null;
+}
@@ -0,0 +1,36 @@
+import type { Provider } from '@supabase/supabase-js';
+
+const providerLabels: Partial<Record<Provider, string>> = {
+  github: 'GitHub',
+  google: 'Google',
+  gitlab: 'GitLab',
+  azure: 'Microsoft',
+  keycloak: 'Single sign-on',
+  workos: 'Single sign-on',
+};
+
+const methodLabels: Record<string, string> = {
+  password: 'Password',
+  magiclink: 'Magic link',
+  otp: 'Magic link',
+  'email/signup': 'Email confirmation',
+  recovery: 'Password reset link',
+  invite: 'Invitation',
+  'sso/saml': 'Single sign-on',
+};
+
+// Providers enabled for this deployment, e.g. VITE_AUTH_PROVIDERS=github,google,keycloak
+export const oauthProviders = (import.meta.env.VITE_AUTH_PROVIDERS ?? '')
+  .split(',')
+  .map((provider) => provider.trim())
+  .filter(Boolean) as Provider[];
+
+export function describeProvider(provider: string) {
+  return providerLabels[provider as Provider] ?? provider.charAt(0).toUpperCase() + provider.slice(1);
+}
+
+export function describeAuthMethod(method: string | null, provider: string | null) {
+  if (!method) return 'Unknown';
+  if (method === 'oauth') return provider ? describeProvider(provider) : 'Single sign-on';
+  return methodLabels[method] ?? method;
+}
@@ -0,0 +1,59 @@
+import { supabase } from './supabase';
+import type { Profile } from './types';
+
+export const AVATAR_BUCKET = 'avatars';
+// Edge length in pixels of the stored, square avatar
+export const AVATAR_SIZE = 256;
+export const MAX_SOURCE_IMAGE_BYTES = 10 * 1024 * 1024;
+
+export interface SquareCrop {
+  x: number;
+  y: number;
+  size: number;
+}
+
+export function initials(profile: Pick<Profile, 'first_name' | 'last_name'> | null, fallback = '?') {
+  const letters = [profile?.first_name, profile?.last_name]
+    .map((name) => name?.trim().charAt(0) ?? '')
+    .join('')
+    .toUpperCase();
+  return letters || fallback;
+}
+
+// Draws the cropped square onto a canvas at AVATAR_SIZE and encodes it.
+// Browsers without WebP encoding fall back to PNG, reflected in blob.type.
+export function cropToSquare(image: HTMLImageElement, crop: SquareCrop) {
+  const canvas = document.createElement('canvas');
+  canvas.width = AVATAR_SIZE;
+  canvas.height = AVATAR_SIZE;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return Promise.reject(new Error('Canvas is not supported'));
+  }
+
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, crop.x, crop.y, crop.size, crop.size, 0, 0, AVATAR_SIZE, AVATAR_SIZE);
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+      'image/webp',
+      0.9
+    );
+  });
+}
+
+// Object path inside the bucket for a public avatar URL, if it is one of ours
+export function avatarObjectPath(url: string | null | undefined) {
+  const marker = `/storage/v1/object/public/${AVATAR_BUCKET}/`;
+  const index = url?.indexOf(marker) ?? -1;
+  return url && index >= 0 ? decodeURIComponent(url.slice(index + marker.length)) : null;
+}
+
+// URL to display for a stored avatar URL. Only the object path is kept, so an
+// avatar always loads from this project's storage whatever host was saved.
+export function avatarDisplayUrl(url: string | null | undefined) {
+  const path = avatarObjectPath(url);
+  return path ? supabase.storage.from(AVATAR_BUCKET).getPublicUrl(path).data.publicUrl : null;
+}
@@ -0,0 +1,45 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+export interface CredentialsUpdate {
+  // Not needed for a password change from a fresh reset link, or for an
+  // account without a password that signed in with a link in the last ten minutes
+  currentPassword?: string;
+  password?: string;
+  email?: string;
+  emailRedirectTo?: string;
+}
+
+export type CredentialsErrorCode =
+  | 'not_authenticated'
+  | 'invalid_request'
+  | 'reauthentication_required'
+  | 'incorrect_password'
+  | 'too_many_attempts'
+  | 'weak_password'
+  | 'password_breached'
+  | 'password_reused'
+  | 'update_failed';
+
+// Rejections of the new password itself, shown against the password field
+export const NEW_PASSWORD_ERRORS: readonly CredentialsErrorCode[] = ['weak_password', 'password_breached', 'password_reused'];
+
+export interface CredentialsError {
+  code: CredentialsErrorCode;
+  message: string;
+}
+
+// Password and email changes go through the update-credentials edge function,
+// which reauthenticates the caller; the database refuses them otherwise
+export async function updateCredentials(update: CredentialsUpdate): Promise<{ error: CredentialsError | null }> {
+  const { error } = await supabase.functions.invoke('update-credentials', { body: update });
+
+  if (!error) return { error: null };
+
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    if (body?.error?.code) return { error: body.error };
+  }
+
+  return { error: { code: 'update_failed', message: error.message } };
+}
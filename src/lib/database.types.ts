@@ -0,0 +1,1098 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      account_deletion_requests: {
+        Row: {
+          cancelled_at: string | null
+          requested_at: string
+          scheduled_for: string
+          user_id: string
+        }
+        Insert: {
+          cancelled_at?: string | null
+          requested_at?: string
+          scheduled_for: string
+          user_id: string
+        }
+        Update: {
+          cancelled_at?: string | null
+          requested_at?: string
+          scheduled_for?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      account_lockouts: {
+        Row: {
+          id: string
+          locked_at: string
+          locked_until: string
+          unlocked_at: string | null
+          unlocked_by: string | null
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          locked_at?: string
+          locked_until: string
+          unlocked_at?: string | null
+          unlocked_by?: string | null
+          user_id: string
+        }
+        Update: {
+          id?: string
+          locked_at?: string
+          locked_until?: string
+          unlocked_at?: string | null
+          unlocked_by?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      credential_change_grants: {
+        Row: {
+          email: string
+          expires_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          email: string
+          expires_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          email?: string
+          expires_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          created_by: string | null
+          email: string
+          expires_at: string
+          id: string
+          organization_id: string | null
+          organization_role: Database["public"]["Enums"]["org_role"] | null
+          revoked_at: string | null
+          revoked_by: string | null
+          role: Database["public"]["Enums"]["app_role"] | null
+          token_hash: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          created_by?: string | null
+          email: string
+          expires_at: string
+          id?: string
+          organization_id?: string | null
+          organization_role?: Database["public"]["Enums"]["org_role"] | null
+          revoked_at?: string | null
+          revoked_by?: string | null
+          role?: Database["public"]["Enums"]["app_role"] | null
+          token_hash: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          created_by?: string | null
+          email?: string
+          expires_at?: string
+          id?: string
+          organization_id?: string | null
+          organization_role?: Database["public"]["Enums"]["org_role"] | null
+          revoked_at?: string | null
+          revoked_by?: string | null
+          role?: Database["public"]["Enums"]["app_role"] | null
+          token_hash?: string
+        }
+        Relationships: []
+      }
+      login_history: {
+        Row: {
+          auth_method: string | null
+          auth_provider: string | null
+          device_info: string | null
+          failure_reason: string | null
+          id: string
+          ip_address: string | null
+          ip_hash: string | null
+          login_timestamp: string
+          pseudonymized_at: string | null
+          risk_flags: string[]
+          session_id: string | null
+          success: boolean
+          user_id: string
+        }
+        Insert: {
+          auth_method?: string | null
+          auth_provider?: string | null
+          device_info?: string | null
+          failure_reason?: string | null
+          id?: string
+          ip_address?: string | null
+          ip_hash?: string | null
+          login_timestamp?: string
+          pseudonymized_at?: string | null
+          risk_flags?: string[]
+          session_id?: string | null
+          success: boolean
+          user_id: string
+        }
+        Update: {
+          auth_method?: string | null
+          auth_provider?: string | null
+          device_info?: string | null
+          failure_reason?: string | null
+          id?: string
+          ip_address?: string | null
+          ip_hash?: string | null
+          login_timestamp?: string
+          pseudonymized_at?: string | null
+          risk_flags?: string[]
+          session_id?: string | null
+          success?: boolean
+          user_id?: string
+        }
+        Relationships: []
+      }
+      login_history_archive: {
+        Row: {
+          archived_at: string
+          auth_method: string | null
+          auth_provider: string | null
+          device_info: string | null
+          failure_reason: string | null
+          id: string
+          ip_address: string | null
+          ip_hash: string | null
+          login_timestamp: string
+          pseudonymized_at: string | null
+          risk_flags: string[]
+          session_id: string | null
+          success: boolean
+          user_id: string
+        }
+        Insert: {
+          archived_at?: string
+          auth_method?: string | null
+          auth_provider?: string | null
+          device_info?: string | null
+          failure_reason?: string | null
+          id?: string
+          ip_address?: string | null
+          ip_hash?: string | null
+          login_timestamp?: string
+          pseudonymized_at?: string | null
+          risk_flags?: string[]
+          session_id?: string | null
+          success: boolean
+          user_id: string
+        }
+        Update: {
+          archived_at?: string
+          auth_method?: string | null
+          auth_provider?: string | null
+          device_info?: string | null
+          failure_reason?: string | null
+          id?: string
+          ip_address?: string | null
+          ip_hash?: string | null
+          login_timestamp?: string
+          pseudonymized_at?: string | null
+          risk_flags?: string[]
+          session_id?: string | null
+          success?: boolean
+          user_id?: string
+        }
+        Relationships: []
+      }
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          metadata: Json
+          pseudonymized_at: string | null
+          read_at: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          metadata?: Json
+          pseudonymized_at?: string | null
+          read_at?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          metadata?: Json
+          pseudonymized_at?: string | null
+          read_at?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      organization_members: {
+        Row: {
+          added_by: string | null
+          joined_at: string
+          organization_id: string
+          role: Database["public"]["Enums"]["org_role"]
+          user_id: string
+        }
+        Insert: {
+          added_by?: string | null
+          joined_at?: string
+          organization_id: string
+          role?: Database["public"]["Enums"]["org_role"]
+          user_id: string
+        }
+        Update: {
+          added_by?: string | null
+          joined_at?: string
+          organization_id?: string
+          role?: Database["public"]["Enums"]["org_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      password_history: {
+        Row: {
+          created_at: string
+          id: string
+          password_hash: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          password_hash: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          password_hash?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      phone_verifications: {
+        Row: {
+          attempts: number
+          code_hash: string
+          consumed_at: string | null
+          created_at: string
+          expires_at: string
+          id: string
+          phone_number: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          code_hash: string
+          consumed_at?: string | null
+          created_at?: string
+          expires_at?: string
+          id?: string
+          phone_number: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          code_hash?: string
+          consumed_at?: string | null
+          created_at?: string
+          expires_at?: string
+          id?: string
+          phone_number?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      profile_changes: {
+        Row: {
+          change_timestamp: string
+          changed_by: string | null
+          field_changed: string
+          id: string
+          new_value: string | null
+          old_value: string | null
+          user_id: string
+        }
+        Insert: {
+          change_timestamp?: string
+          changed_by?: string | null
+          field_changed: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          user_id: string
+        }
+        Update: {
+          change_timestamp?: string
+          changed_by?: string | null
+          field_changed?: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      profile_changes_archive: {
+        Row: {
+          archived_at: string
+          change_timestamp: string
+          changed_by: string | null
+          field_changed: string
+          id: string
+          new_value: string | null
+          old_value: string | null
+          user_id: string
+        }
+        Insert: {
+          archived_at?: string
+          change_timestamp?: string
+          changed_by?: string | null
+          field_changed: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          user_id: string
+        }
+        Update: {
+          archived_at?: string
+          change_timestamp?: string
+          changed_by?: string | null
+          field_changed?: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          first_name: string
+          id: string
+          last_name: string
+          phone_number: string | null
+          phone_verified_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          first_name: string
+          id: string
+          last_name: string
+          phone_number?: string | null
+          phone_verified_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          first_name?: string
+          id?: string
+          last_name?: string
+          phone_number?: string | null
+          phone_verified_at?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      pseudonymization_key: {
+        Row: {
+          id: boolean
+          key: string
+        }
+        Insert: {
+          id?: boolean
+          key?: string
+        }
+        Update: {
+          id?: boolean
+          key?: string
+        }
+        Relationships: []
+      }
+      retention_policies: {
+        Row: {
+          archive_retain_for: unknown | null
+          expired_action: string
+          pseudonymize_after: unknown | null
+          retain_for: unknown
+          table_name: string
+          updated_at: string
+        }
+        Insert: {
+          archive_retain_for?: unknown | null
+          expired_action?: string
+          pseudonymize_after?: unknown | null
+          retain_for: unknown
+          table_name: string
+          updated_at?: string
+        }
+        Update: {
+          archive_retain_for?: unknown | null
+          expired_action?: string
+          pseudonymize_after?: unknown | null
+          retain_for?: unknown
+          table_name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      retention_runs: {
+        Row: {
+          archived_count: number
+          deleted_count: number
+          error: string | null
+          finished_at: string | null
+          id: string
+          pseudonymized_count: number
+          started_at: string
+          status: string
+        }
+        Insert: {
+          archived_count?: number
+          deleted_count?: number
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          pseudonymized_count?: number
+          started_at?: string
+          status?: string
+        }
+        Update: {
+          archived_count?: number
+          deleted_count?: number
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          pseudonymized_count?: number
+          started_at?: string
+          status?: string
+        }
+        Relationships: []
+      }
+      role_permissions: {
+        Row: {
+          permission: string
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Insert: {
+          permission: string
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Update: {
+          permission?: string
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Relationships: []
+      }
+      security_events: {
+        Row: {
+          created_at: string
+          details: Json
+          device_info: string | null
+          event_type: string
+          id: string
+          ip_address: string | null
+          pseudonymized_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          details?: Json
+          device_info?: string | null
+          event_type: string
+          id?: string
+          ip_address?: string | null
+          pseudonymized_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          details?: Json
+          device_info?: string | null
+          event_type?: string
+          id?: string
+          ip_address?: string | null
+          pseudonymized_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      security_settings: {
+        Row: {
+          account_deletion_grace_period: unknown
+          failed_attempt_window: unknown
+          id: boolean
+          invite_only: boolean
+          lockout_backoff_multiplier: number
+          lockout_backoff_window: unknown
+          lockout_duration: unknown
+          max_failed_attempts: number
+          max_lockout_duration: unknown
+          password_history_size: number
+          updated_at: string
+        }
+        Insert: {
+          account_deletion_grace_period?: unknown
+          failed_attempt_window?: unknown
+          id?: boolean
+          invite_only?: boolean
+          lockout_backoff_multiplier?: number
+          lockout_backoff_window?: unknown
+          lockout_duration?: unknown
+          max_failed_attempts?: number
+          max_lockout_duration?: unknown
+          password_history_size?: number
+          updated_at?: string
+        }
+        Update: {
+          account_deletion_grace_period?: unknown
+          failed_attempt_window?: unknown
+          id?: boolean
+          invite_only?: boolean
+          lockout_backoff_multiplier?: number
+          lockout_backoff_window?: unknown
+          lockout_duration?: unknown
+          max_failed_attempts?: number
+          max_lockout_duration?: unknown
+          password_history_size?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          granted_at: string
+          granted_by: string | null
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          granted_at?: string
+          granted_by?: string | null
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          granted_at?: string
+          granted_by?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      active_lockout_until: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: string
+      }
+      admin_list_users: {
+        Args: {
+          p_limit?: number
+          p_offset?: number
+          p_search?: string
+        }
+        Returns: {
+          created_at: string
+          email: string
+          first_name: string
+          id: string
+          last_login_at: string
+          last_login_device: string
+          last_login_ip: string
+          last_name: string
+          locked_until: string
+          phone_number: string
+          total_count: number
+          updated_at: string
+        }[]
+      }
+      admin_unlock_account: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      apply_retention_policies: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      cancel_account_deletion: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      check_organization_grant: {
+        Args: {
+          p_organization_id: string
+          p_role: Database["public"]["Enums"]["org_role"]
+        }
+        Returns: undefined
+      }
+      check_request_session: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      create_invitation: {
+        Args: {
+          p_email: string
+          p_expires_at?: string
+          p_role?: Database["public"]["Enums"]["app_role"]
+        }
+        Returns: string
+      }
+      create_organization: {
+        Args: {
+          p_name: string
+        }
+        Returns: string
+      }
+      create_lockout: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: string
+      }
+      create_phone_verification: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: {
+          code: string
+          phone_number: string
+        }[]
+      }
+      current_session_active: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      current_session_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      delete_scheduled_account: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      device_family: {
+        Args: {
+          p_device_info: string
+        }
+        Returns: string
+      }
+      due_account_deletions: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      expire_rows: {
+        Args: {
+          p_action: string
+          p_retain_for: unknown
+          p_table: string
+          p_timestamp_column: string
+        }
+        Returns: number
+      }
+      export_my_data: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      generate_recovery_codes: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      get_invitation: {
+        Args: {
+          p_token: string
+        }
+        Returns: {
+          email: string
+          expires_at: string
+        }[]
+      }
+      grant_credential_change: {
+        Args: {
+          p_email: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      has_password: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      has_permission: {
+        Args: {
+          p_permission: string
+        }
+        Returns: boolean
+      }
+      has_role: {
+        Args: {
+          p_role: Database["public"]["Enums"]["app_role"]
+        }
+        Returns: boolean
+      }
+      hash_invitation_token: {
+        Args: {
+          p_token: string
+        }
+        Returns: string
+      }
+      hash_ip: {
+        Args: {
+          p_ip: string
+        }
+        Returns: string
+      }
+      hash_phone_code: {
+        Args: {
+          p_code: string
+          p_verification_id: string
+        }
+        Returns: string
+      }
+      hash_recovery_code: {
+        Args: {
+          p_code: string
+          p_salt?: string
+        }
+        Returns: string
+      }
+      hook_password_verification_attempt: {
+        Args: {
+          event: Json
+        }
+        Returns: Json
+      }
+      invite_organization_member: {
+        Args: {
+          p_email: string
+          p_organization_id: string
+          p_role?: Database["public"]["Enums"]["org_role"]
+        }
+        Returns: string
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_organization_admin: {
+        Args: {
+          p_organization_id: string
+        }
+        Returns: boolean
+      }
+      list_my_organization_invitations: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          created_at: string
+          expires_at: string
+          id: string
+          invited_by_name: string
+          organization_id: string
+          organization_name: string
+          organization_role: Database["public"]["Enums"]["org_role"]
+        }[]
+      }
+      list_my_sessions: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          aal: string
+          created_at: string
+          device_info: string
+          id: string
+          ip_address: string
+          is_current: boolean
+          last_active_at: string
+        }[]
+      }
+      list_organization_members: {
+        Args: {
+          p_organization_id: string
+        }
+        Returns: {
+          avatar_url: string
+          email: string
+          first_name: string
+          joined_at: string
+          last_name: string
+          role: Database["public"]["Enums"]["org_role"]
+          user_id: string
+        }[]
+      }
+      log_security_event: {
+        Args: {
+          p_details?: Json
+          p_event_type: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      manages_user: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      organization_role: {
+        Args: {
+          p_organization_id: string
+        }
+        Returns: Database["public"]["Enums"]["org_role"]
+      }
+      password_in_history: {
+        Args: {
+          p_password: string
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      pseudonymize_details: {
+        Args: {
+          p_details: Json
+        }
+        Returns: Json
+      }
+      pseudonymize_rows: {
+        Args: {
+          p_after: unknown
+          p_table: string
+        }
+        Returns: number
+      }
+      recently_authenticated: {
+        Args: {
+          p_within: unknown
+        }
+        Returns: boolean
+      }
+      record_security_event: {
+        Args: {
+          p_details?: Json
+          p_event_type: string
+        }
+        Returns: undefined
+      }
+      recovery_codes_remaining: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      redeem_recovery_code: {
+        Args: {
+          p_code: string
+        }
+        Returns: boolean
+      }
+      remove_organization_member: {
+        Args: {
+          p_organization_id: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      report_unrecognized_login: {
+        Args: {
+          p_notification_id: string
+        }
+        Returns: undefined
+      }
+      request_account_deletion: {
+        Args: {
+          p_password?: string
+        }
+        Returns: string
+      }
+      request_ip: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      request_user_agent: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      respond_to_organization_invitation: {
+        Args: {
+          p_accept: boolean
+          p_invitation_id: string
+        }
+        Returns: undefined
+      }
+      revoke_invitation: {
+        Args: {
+          p_invitation_id: string
+        }
+        Returns: undefined
+      }
+      revoke_other_sessions: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      revoke_session: {
+        Args: {
+          p_session_id: string
+        }
+        Returns: undefined
+      }
+      send_control_message: {
+        Args: {
+          p_event: string
+          p_payload?: Json
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      set_organization_member_role: {
+        Args: {
+          p_organization_id: string
+          p_role: Database["public"]["Enums"]["org_role"]
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      set_user_password: {
+        Args: {
+          p_password: string
+          p_reset?: boolean
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      signups_require_invitation: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      truncate_ip: {
+        Args: {
+          p_ip: string
+        }
+        Returns: string
+      }
+      verify_current_password: {
+        Args: {
+          p_password: string
+        }
+        Returns: boolean
+      }
+      verify_phone: {
+        Args: {
+          p_code: string
+        }
+        Returns: boolean
+      }
+    }
+    Enums: {
+      app_role: "admin" | "support"
+      org_role: "owner" | "admin" | "member"
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database[Extract<keyof Database, "public">]
+
+export type Tables<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Row"]
+
+export type TablesInsert<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Insert"]
+
+export type TablesUpdate<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Update"]
+
+export type Enums<EnumName extends keyof PublicSchema["Enums"]> =
+  PublicSchema["Enums"][EnumName]
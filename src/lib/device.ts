@@ -0,0 +1,35 @@
+const browsers: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const platforms: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+function match(patterns: [RegExp, string][], value: string) {
+  return patterns.find(([pattern]) => pattern.test(value))?.[1];
+}
+
+// Turns a raw user agent into a short label such as "Chrome on macOS"
+export function describeDevice(userAgent: string | null | undefined) {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = match(browsers, userAgent);
+  const platform = match(platforms, userAgent);
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser ?? platform ?? userAgent;
+}
+
+export function isMobileDevice(userAgent: string | null | undefined) {
+  return !!userAgent && /Mobile|Android|iPhone|iPad|iPod/.test(userAgent);
+}
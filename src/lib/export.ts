@@ -0,0 +1,45 @@
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | null | undefined;
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsv(value: string | number | boolean | null | undefined) {
+  if (value === null || value === undefined) return '';
+  // Values such as user agents and failure reasons come from the client
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]) {
+  const lines = [
+    columns.map((column) => escapeCsv(column.header)).join(','),
+    ...rows.map((row) => columns.map((column) => escapeCsv(column.value(row))).join(',')),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function downloadFile(filename: string, content: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function exportFilename(prefix: string, extension: string) {
+  return `${prefix}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+}
+
+// Date inputs give local calendar days; widen them to cover the whole day
+export function startOfDayIso(date: string) {
+  return new Date(`${date}T00:00:00`).toISOString();
+}
+
+export function endOfDayIso(date: string) {
+  return new Date(`${date}T23:59:59.999`).toISOString();
+}
@@ -0,0 +1,28 @@
+const DEFAULT_TIMEOUT_MINUTES = 15;
+const DEFAULT_WARNING_SECONDS = 60;
+
+// Shared through localStorage so activity in any tab keeps every tab signed in
+const LAST_ACTIVITY_KEY = 'idle:last-activity';
+// Set by the tab that times out, so the others can follow it to /login
+export const TIMED_OUT_KEY = 'idle:timed-out';
+
+function readSetting(value: string | undefined, fallback: number) {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+// e.g. VITE_IDLE_TIMEOUT_MINUTES=30, VITE_IDLE_WARNING_SECONDS=120
+export const idleTimeoutMs = readSetting(import.meta.env.VITE_IDLE_TIMEOUT_MINUTES, DEFAULT_TIMEOUT_MINUTES) * 60 * 1000;
+export const idleWarningMs = Math.min(
+  readSetting(import.meta.env.VITE_IDLE_WARNING_SECONDS, DEFAULT_WARNING_SECONDS) * 1000,
+  idleTimeoutMs
+);
+
+export function readLastActivity() {
+  const stored = Number(localStorage.getItem(LAST_ACTIVITY_KEY));
+  return Number.isFinite(stored) && stored > 0 ? stored : null;
+}
+
+export function writeLastActivity(at = Date.now()) {
+  localStorage.setItem(LAST_ACTIVITY_KEY, String(at));
+}
@@ -0,0 +1,17 @@
+export interface AccessTokenClaims {
+  sub: string;
+  session_id?: string;
+  aal?: 'aal1' | 'aal2';
+  amr?: { method: string; timestamp: number }[];
+}
+
+// Reads the payload of a Supabase access token. The signature is not checked;
+// use this only for UI decisions, never for authorization.
+export function decodeAccessToken(token: string): AccessTokenClaims | null {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(payload));
+  } catch {
+    return null;
+  }
+}
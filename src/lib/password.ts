@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import {
+  estimateEntropy,
+  isCommonPassword,
+  passwordPolicyViolation,
+} from '../../supabase/functions/_shared/passwordPolicy.ts';
+
+// The policy itself is shared with the update-credentials edge function,
+// which enforces it; this adds the strength meter and the form schema
+
+const STRENGTH_THRESHOLDS = [28, 36, 60, 80];
+
+export type PasswordScore = 0 | 1 | 2 | 3 | 4;
+
+export interface PasswordStrength {
+  score: PasswordScore;
+  entropyBits: number;
+  common: boolean;
+}
+
+export function passwordStrength(password: string): PasswordStrength {
+  const entropyBits = estimateEntropy(password);
+  const score = STRENGTH_THRESHOLDS.filter((threshold) => entropyBits >= threshold).length as PasswordScore;
+
+  return { score, entropyBits, common: isCommonPassword(password) };
+}
+
+export const passwordSchema = z.string().superRefine((password, ctx) => {
+  const violation = passwordPolicyViolation(password);
+  if (violation) ctx.addIssue({ code: z.ZodIssueCode.custom, message: violation });
+});
@@ -0,0 +1,66 @@
+export interface Country {
+  code: string;
+  name: string;
+  dialCode: string;
+}
+
+export const E164_PATTERN = /^\+[1-9]\d{6,14}$/;
+
+export const countries: Country[] = [
+  { code: 'US', name: 'United States', dialCode: '1' },
+  { code: 'CA', name: 'Canada', dialCode: '1' },
+  { code: 'GB', name: 'United Kingdom', dialCode: '44' },
+  { code: 'IE', name: 'Ireland', dialCode: '353' },
+  { code: 'AU', name: 'Australia', dialCode: '61' },
+  { code: 'NZ', name: 'New Zealand', dialCode: '64' },
+  { code: 'DE', name: 'Germany', dialCode: '49' },
+  { code: 'FR', name: 'France', dialCode: '33' },
+  { code: 'ES', name: 'Spain', dialCode: '34' },
+  { code: 'IT', name: 'Italy', dialCode: '39' },
+  { code: 'NL', name: 'Netherlands', dialCode: '31' },
+  { code: 'BE', name: 'Belgium', dialCode: '32' },
+  { code: 'CH', name: 'Switzerland', dialCode: '41' },
+  { code: 'AT', name: 'Austria', dialCode: '43' },
+  { code: 'SE', name: 'Sweden', dialCode: '46' },
+  { code: 'NO', name: 'Norway', dialCode: '47' },
+  { code: 'DK', name: 'Denmark', dialCode: '45' },
+  { code: 'FI', name: 'Finland', dialCode: '358' },
+  { code: 'PL', name: 'Poland', dialCode: '48' },
+  { code: 'PT', name: 'Portugal', dialCode: '351' },
+  { code: 'BR', name: 'Brazil', dialCode: '55' },
+  { code: 'MX', name: 'Mexico', dialCode: '52' },
+  { code: 'AR', name: 'Argentina', dialCode: '54' },
+  { code: 'IN', name: 'India', dialCode: '91' },
+  { code: 'JP', name: 'Japan', dialCode: '81' },
+  { code: 'KR', name: 'South Korea', dialCode: '82' },
+  { code: 'CN', name: 'China', dialCode: '86' },
+  { code: 'SG', name: 'Singapore', dialCode: '65' },
+  { code: 'ZA', name: 'South Africa', dialCode: '27' },
+  { code: 'NG', name: 'Nigeria', dialCode: '234' },
+  { code: 'AE', name: 'United Arab Emirates', dialCode: '971' },
+  { code: 'IL', name: 'Israel', dialCode: '972' },
+];
+
+export function defaultCountry(): Country {
+  const region = navigator.language.split('-')[1]?.toUpperCase();
+  return countries.find((country) => country.code === region) ?? countries[0];
+}
+
+// Joins a country and the number as typed; a leading trunk 0 is dropped
+export function toE164(country: Country, nationalNumber: string) {
+  const digits = nationalNumber.replace(/\D/g, '').replace(/^0+/, '');
+  return digits ? `+${country.dialCode}${digits}` : '';
+}
+
+// Splits a stored number on the longest matching dial code. Countries that
+// share a code (US and Canada) resolve to the first one listed.
+export function parseE164(value: string) {
+  const digits = value.replace(/\D/g, '');
+  const country = countries
+    .filter((option) => digits.startsWith(option.dialCode))
+    .sort((a, b) => b.dialCode.length - a.dialCode.length)[0];
+
+  if (!country) return null;
+
+  return { country, nationalNumber: digits.slice(country.dialCode.length) };
+}
@@ -0,0 +1,113 @@
+import type { Json, Tables } from '../database.types';
+import type {
+  LoginHistory,
+  LoginRiskFlag,
+  Notification,
+  NotificationType,
+  Permission,
+  RetentionPolicy,
+  RetentionRun,
+  RetentionTable,
+} from '../types';
+
+// Converts generated rows into the narrower types in ../types by checking each
+// narrowed column. A value outside its union in a column a CHECK constraint
+// guards means the schema and the app disagree, so that throws; values only a
+// trigger writes are dropped instead, so one odd row doesn't break the page.
+
+// The record makes the compiler insist every member of the union is listed
+function oneOf<T extends string>(members: Record<T, true>) {
+  return (value: unknown): value is T =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(members, value);
+}
+
+const isLoginRiskFlag = oneOf<LoginRiskFlag>({ new_device: true, new_ip: true, after_failures: true });
+
+export const isPermission = oneOf<Permission>({
+  'users:read': true,
+  'users:unlock': true,
+  'users:invite': true,
+  'audit:read': true,
+  'roles:manage': true,
+  'settings:manage': true,
+});
+
+const isNotificationType = oneOf<NotificationType>({ new_device: true, new_ip: true, suspicious_login: true });
+
+const isRetentionTable = oneOf<RetentionTable>({
+  login_history: true,
+  profile_changes: true,
+  notifications: true,
+  account_lockouts: true,
+  security_events: true,
+});
+
+const isExpiredAction = oneOf<RetentionPolicy['expired_action']>({ delete: true, archive: true });
+
+const isRetentionRunStatus = oneOf<RetentionRun['status']>({ running: true, succeeded: true, failed: true });
+
+function checked<T>(value: unknown, isValid: (value: unknown) => value is T, column: string): T {
+  if (!isValid(value)) throw new Error(`Unexpected ${column}: ${String(value)}`);
+  return value;
+}
+
+// PostgREST sends intervals as text; the generated types can't say so
+function interval(value: unknown, column: string) {
+  return checked(value, (text): text is string => typeof text === 'string', column);
+}
+
+function optionalInterval(value: unknown, column: string) {
+  return value === null ? null : interval(value, column);
+}
+
+function isJsonObject(value: Json): value is { [key: string]: Json | undefined } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: Json | undefined) {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function nullableString(value: Json | undefined) {
+  return typeof value === 'string' || value === null ? value : undefined;
+}
+
+export function toLoginHistory(row: Tables<'login_history'>): LoginHistory {
+  return { ...row, risk_flags: row.risk_flags.filter(isLoginRiskFlag) };
+}
+
+// Only the notify_risky_login trigger writes notifications; one of a type this
+// build doesn't know yields null
+export function toNotification(row: Tables<'notifications'>): Notification | null {
+  if (!isNotificationType(row.type)) return null;
+
+  const metadata = isJsonObject(row.metadata) ? row.metadata : {};
+  const riskFlags = metadata.risk_flags;
+
+  return {
+    ...row,
+    type: row.type,
+    metadata: {
+      login_id: optionalString(metadata.login_id),
+      session_id: nullableString(metadata.session_id),
+      ip_address: nullableString(metadata.ip_address),
+      device_info: nullableString(metadata.device_info),
+      risk_flags: Array.isArray(riskFlags) ? riskFlags.filter(isLoginRiskFlag) : undefined,
+    },
+  };
+}
+
+export function toRetentionPolicy(row: Tables<'retention_policies'>): RetentionPolicy {
+  return {
+    ...row,
+    table_name: checked(row.table_name, isRetentionTable, 'retention table'),
+    pseudonymize_after: optionalInterval(row.pseudonymize_after, 'pseudonymize_after'),
+    retain_for: interval(row.retain_for, 'retain_for'),
+    expired_action: checked(row.expired_action, isExpiredAction, 'expired_action'),
+    archive_retain_for: optionalInterval(row.archive_retain_for, 'archive_retain_for'),
+  };
+}
+
+export function toRetentionRun(row: Tables<'retention_runs'>): RetentionRun {
+  return { ...row, status: checked(row.status, isRetentionRunStatus, 'retention run status') };
+}
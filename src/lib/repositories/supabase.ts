@@ -0,0 +1,261 @@
+import type { PostgrestResponse, PostgrestSingleResponse, SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables } from '../database.types';
+import { isPermission, toLoginHistory, toNotification, toRetentionPolicy, toRetentionRun } from './rows';
+import type { Repositories } from './types';
+
+function unwrap<T>(result: PostgrestSingleResponse<T>): T {
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+// Every column except token_hash
+const INVITATION_COLUMNS =
+  'id, email, role, organization_id, organization_role, created_at, created_by, expires_at, revoked_at, revoked_by, accepted_at, accepted_by';
+
+function unwrapPage<T>(result: PostgrestResponse<T>) {
+  return { rows: unwrap(result), total: result.count ?? 0 };
+}
+
+type RealtimeTable = 'login_history' | 'profile_changes';
+
+// Row-level security applies to realtime too, and the filter narrows what
+// staff would otherwise receive for every user they can see
+function subscribeToInserts<Table extends RealtimeTable>(
+  client: SupabaseClient<Database>,
+  table: Table,
+  userId: string,
+  onInsert: (row: Tables<Table>) => void
+) {
+  // Each subscriber gets its own channel so unsubscribing one leaves the rest
+  const channel = client
+    .channel(`${table}:${userId}:${crypto.randomUUID()}`)
+    .on<Tables<Table>>(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table, filter: `user_id=eq.${userId}` },
+      (payload) => onInsert(payload.new)
+    )
+    .subscribe();
+
+  return () => {
+    client.removeChannel(channel);
+  };
+}
+
+// Repositories backed by PostgREST; row-level security decides what is visible
+export function createSupabaseRepositories(client: SupabaseClient<Database>): Repositories {
+  return {
+    profiles: {
+      async get(userId) {
+        return unwrap(await client.from('profiles').select('*').eq('id', userId).maybeSingle());
+      },
+
+      async update(userId, changes) {
+        return unwrap(await client.from('profiles').update(changes).eq('id', userId).select().single());
+      },
+    },
+
+    loginHistory: {
+      async list(userId, { filter = {}, sort, offset = 0, limit }) {
+        let query = client
+          .from('login_history')
+          .select('*', { count: 'exact' })
+          .eq('user_id', userId);
+
+        if (filter.from) query = query.gte('login_timestamp', filter.from);
+        if (filter.to) query = query.lte('login_timestamp', filter.to);
+        if (filter.success !== undefined) query = query.eq('success', filter.success);
+
+        const { column, ascending } = sort ?? { column: 'login_timestamp', ascending: false };
+        const result = await query
+          .order(column, { ascending })
+          .order('id', { ascending: true })
+          .range(offset, offset + limit - 1);
+
+        const page = unwrapPage(result);
+        return { ...page, rows: page.rows.map(toLoginHistory) };
+      },
+
+      async countFailures(userId, after) {
+        let query = client
+          .from('login_history')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', userId)
+          .eq('success', false);
+
+        if (after) query = query.gt('login_timestamp', after);
+
+        const { count, error } = await query;
+        if (error) throw error;
+        return count ?? 0;
+      },
+
+      subscribe(userId, onInsert) {
+        return subscribeToInserts(client, 'login_history', userId, (row) => onInsert(toLoginHistory(row)));
+      },
+    },
+
+    audit: {
+      async listProfileChanges(userId, { filter = {}, sort, offset = 0, limit }) {
+        let query = client
+          .from('profile_changes')
+          .select('*', { count: 'exact' })
+          .eq('user_id', userId);
+
+        if (filter.from) query = query.gte('change_timestamp', filter.from);
+        if (filter.to) query = query.lte('change_timestamp', filter.to);
+        if (filter.field) query = query.eq('field_changed', filter.field);
+
+        const { column, ascending } = sort ?? { column: 'change_timestamp', ascending: false };
+        return unwrapPage(
+          await query
+            .order(column, { ascending })
+            .order('id', { ascending: true })
+            .range(offset, offset + limit - 1)
+        );
+      },
+
+      async listSecurityEvents(userId, { offset = 0, limit }) {
+        return unwrapPage(
+          await client
+            .from('security_events')
+            .select('*', { count: 'exact' })
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false })
+            .order('id', { ascending: true })
+            .range(offset, offset + limit - 1)
+        );
+      },
+
+      subscribeProfileChanges(userId, onInsert) {
+        return subscribeToInserts(client, 'profile_changes', userId, onInsert);
+      },
+    },
+
+    roles: {
+      async listRoles(userId) {
+        const rows = unwrap(await client.from('user_roles').select('role').eq('user_id', userId));
+        return rows.map((row) => row.role);
+      },
+
+      async listPermissions(roles) {
+        if (roles.length === 0) return [];
+
+        const rows = unwrap(await client.from('role_permissions').select('permission').in('role', roles));
+        return [...new Set(rows.map((row) => row.permission).filter(isPermission))];
+      },
+    },
+
+    account: {
+      async getPendingDeletion(userId) {
+        return unwrap(
+          await client
+            .from('account_deletion_requests')
+            .select('*')
+            .eq('user_id', userId)
+            .is('cancelled_at', null)
+            .maybeSingle()
+        );
+      },
+    },
+
+    notifications: {
+      async listRecent(userId, limit) {
+        const rows = unwrap(
+          await client
+            .from('notifications')
+            .select('*')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false })
+            .limit(limit)
+        );
+
+        return rows.flatMap((row) => toNotification(row) ?? []);
+      },
+
+      async markRead(ids, readAt) {
+        const { error } = await client
+          .from('notifications')
+          .update({ read_at: readAt })
+          .in('id', ids)
+          .is('read_at', null);
+
+        if (error) throw error;
+      },
+    },
+
+    organizations: {
+      async listMemberships(userId) {
+        const [rows, organizations] = await Promise.all([
+          client.from('organization_members').select('organization_id, role').eq('user_id', userId).then(unwrap),
+          // RLS limits this to the organizations the user is a member of
+          client.from('organizations').select('*').order('name').then(unwrap),
+        ]);
+
+        return organizations.flatMap((organization) => {
+          const row = rows.find((membership) => membership.organization_id === organization.id);
+          return row ? [{ organization, role: row.role }] : [];
+        });
+      },
+
+      async listMyInvitations() {
+        // invited_by_name is null when the inviter has no name on record
+        return unwrap(await client.rpc('list_my_organization_invitations'));
+      },
+    },
+
+    invitations: {
+      async list({ offset = 0, limit }) {
+        return unwrapPage(
+          await client
+            .from('invitations')
+            .select(INVITATION_COLUMNS, { count: 'exact' })
+            .order('created_at', { ascending: false })
+            .range(offset, offset + limit - 1)
+        );
+      },
+
+      async listPending(organizationId) {
+        return unwrap(
+          await client
+            .from('invitations')
+            .select(INVITATION_COLUMNS)
+            .eq('organization_id', organizationId)
+            .is('accepted_at', null)
+            .is('revoked_at', null)
+            .gt('expires_at', new Date().toISOString())
+            .order('created_at', { ascending: false })
+        );
+      },
+    },
+
+    retention: {
+      async listPolicies() {
+        const rows = unwrap(await client.from('retention_policies').select('*').order('table_name'));
+        return rows.map(toRetentionPolicy);
+      },
+
+      async listRuns(limit) {
+        const rows = unwrap(
+          await client.from('retention_runs').select('*').order('started_at', { ascending: false }).limit(limit)
+        );
+        return rows.map(toRetentionRun);
+      },
+    },
+
+    settings: {
+      async getInviteOnly() {
+        return unwrap(await client.from('security_settings').select('invite_only').single()).invite_only;
+      },
+
+      async setInviteOnly(inviteOnly) {
+        // The table holds a single row whose id is always true
+        const { error } = await client
+          .from('security_settings')
+          .update({ invite_only: inviteOnly, updated_at: new Date().toISOString() })
+          .eq('id', true);
+
+        if (error) throw error;
+      },
+    },
+  };
+}
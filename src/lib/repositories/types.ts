@@ -0,0 +1,132 @@
+import type { TablesUpdate } from '../database.types';
+import type {
+  AccountDeletionRequest,
+  AppRole,
+  Invitation,
+  LoginHistory,
+  Notification,
+  OrganizationInvitation,
+  OrganizationMembership,
+  Permission,
+  Profile,
+  ProfileChange,
+  RetentionPolicy,
+  RetentionRun,
+  SecurityEvent,
+} from '../types';
+
+export interface Page<T> {
+  rows: T[];
+  // Rows matching the filter, ignoring offset and limit
+  total: number;
+}
+
+export interface ListOptions<Column extends string, Filter> {
+  filter?: Filter;
+  sort?: { column: Column; ascending: boolean };
+  offset?: number;
+  limit: number;
+}
+
+// Columns the signed-in user may change; the rest are set by the database
+export type ProfileUpdate = Pick<TablesUpdate<'profiles'>, 'first_name' | 'last_name' | 'phone_number' | 'avatar_url'>;
+
+export interface ProfilesRepo {
+  get(userId: string): Promise<Profile | null>;
+  // The database stamps updated_at and audits the change in the same transaction
+  update(userId: string, changes: ProfileUpdate): Promise<Profile>;
+}
+
+export type LoginHistorySortColumn = 'login_timestamp' | 'ip_address' | 'device_info' | 'success';
+
+export interface LoginHistoryFilter {
+  // ISO timestamps, inclusive
+  from?: string;
+  to?: string;
+  success?: boolean;
+}
+
+export interface LoginHistoryRepo {
+  // Newest first unless a sort is given
+  list(userId: string, options: ListOptions<LoginHistorySortColumn, LoginHistoryFilter>): Promise<Page<LoginHistory>>;
+  // Failed attempts, optionally only those after an ISO timestamp
+  countFailures(userId: string, after?: string): Promise<number>;
+  // Calls onInsert for each row added from now on; returns the unsubscribe
+  subscribe(userId: string, onInsert: (login: LoginHistory) => void): () => void;
+}
+
+export type ProfileChangeSortColumn = 'change_timestamp' | 'field_changed';
+
+export interface ProfileChangeFilter {
+  from?: string;
+  to?: string;
+  field?: string;
+}
+
+export interface AuditRepo {
+  listProfileChanges(
+    userId: string,
+    options: ListOptions<ProfileChangeSortColumn, ProfileChangeFilter>
+  ): Promise<Page<ProfileChange>>;
+  // Newest first
+  listSecurityEvents(userId: string, options: ListOptions<'created_at', never>): Promise<Page<SecurityEvent>>;
+  // Calls onInsert for each profile change recorded from now on; returns the unsubscribe
+  subscribeProfileChanges(userId: string, onInsert: (change: ProfileChange) => void): () => void;
+}
+
+export interface RolesRepo {
+  listRoles(userId: string): Promise<AppRole[]>;
+  // Every permission any of the roles grants, without duplicates
+  listPermissions(roles: AppRole[]): Promise<Permission[]>;
+}
+
+export interface AccountRepo {
+  // The user's deletion request unless it was cancelled
+  getPendingDeletion(userId: string): Promise<AccountDeletionRequest | null>;
+}
+
+export interface NotificationsRepo {
+  // Newest first
+  listRecent(userId: string, limit: number): Promise<Notification[]>;
+  // Leaves notifications that were already read untouched
+  markRead(ids: string[], readAt: string): Promise<void>;
+}
+
+export interface OrganizationsRepo {
+  // Ordered by organization name
+  listMemberships(userId: string): Promise<OrganizationMembership[]>;
+  // Pending invitations for the signed-in user's confirmed email, newest first
+  listMyInvitations(): Promise<OrganizationInvitation[]>;
+}
+
+export interface InvitationsRepo {
+  // Newest first; token hashes are never read back
+  list(options: ListOptions<'created_at', never>): Promise<Page<Invitation>>;
+  // Invitations to the organization that can still be accepted, newest first
+  listPending(organizationId: string): Promise<Invitation[]>;
+}
+
+export interface RetentionRepo {
+  listPolicies(): Promise<RetentionPolicy[]>;
+  // Newest first
+  listRuns(limit: number): Promise<RetentionRun[]>;
+}
+
+// The settings row is only visible to users with settings:manage
+export interface SettingsRepo {
+  getInviteOnly(): Promise<boolean>;
+  setInviteOnly(inviteOnly: boolean): Promise<void>;
+}
+
+export interface Repositories {
+  profiles: ProfilesRepo;
+  loginHistory: LoginHistoryRepo;
+  audit: AuditRepo;
+  roles: RolesRepo;
+  account: AccountRepo;
+  notifications: NotificationsRepo;
+  organizations: OrganizationsRepo;
+  invitations: InvitationsRepo;
+  retention: RetentionRepo;
+  settings: SettingsRepo;
+}
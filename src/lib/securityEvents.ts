@@ -0,0 +1,29 @@
+const labels: Record<string, string> = {
+  mfa_enrolled: 'Two-factor authentication enabled',
+  mfa_removed: 'Two-factor authentication removed',
+  recovery_codes_generated: 'New recovery codes generated',
+  recovery_code_used: 'Recovery code used to sign in',
+  recovery_code_rejected: 'Invalid recovery code entered',
+  recovery_codes_invalidated: 'Recovery codes reset by a security upgrade',
+  password_reset: 'Password reset by email',
+  password_verification_failed: 'Incorrect current password entered',
+  session_revoked: 'Signed out a session remotely',
+  other_sessions_revoked: 'Signed out all other sessions',
+  account_deletion_requested: 'Account deletion requested',
+  account_deletion_cancelled: 'Account deletion cancelled',
+  login_reported_unrecognized: 'Reported a sign-in as not you',
+  phone_verified: 'Phone number verified',
+  session_timeout: 'Signed out after inactivity',
+  invitation_created: 'Invited a new user',
+  invitation_revoked: 'Revoked an invitation',
+  invitation_accepted: 'Joined by invitation',
+  invitation_declined: 'Declined an invitation',
+  organization_created: 'Created an organization',
+  organization_member_added: 'Added an organization member',
+  organization_member_role_changed: "Changed an organization member's role",
+  organization_member_removed: 'Removed an organization member',
+};
+
+export function describeSecurityEvent(eventType: string) {
+  return labels[eventType] ?? eventType.replace(/_/g, ' ');
+}
@@ -1,28 +1,118 @@
-export interface Profile {
+import type { Enums, Tables } from './database.types';
+
+// Row types come from the generated schema. Where a column is narrower than
+// its SQL type (a CHECK, or values only a trigger writes) the override says so.
+
+export type Profile = Tables<'profiles'>;
+
+export type LoginRiskFlag = 'new_device' | 'new_ip' | 'after_failures';
+
+export type LoginHistory = Omit<Tables<'login_history'>, 'risk_flags'> & {
+  risk_flags: LoginRiskFlag[];
+};
+
+export type ProfileChange = Tables<'profile_changes'>;
+
+export type AppRole = Enums<'app_role'>;
+
+export type Permission =
+  | 'users:read'
+  | 'users:unlock'
+  | 'users:invite'
+  | 'audit:read'
+  | 'roles:manage'
+  | 'settings:manage';
+
+export type UserRole = Tables<'user_roles'>;
+
+export interface AdminUser extends Omit<Profile, 'phone_verified_at' | 'avatar_url'> {
+  email: string;
+  last_login_at: string | null;
+  last_login_ip: string | null;
+  last_login_device: string | null;
+  locked_until: string | null;
+  total_count: number;
+}
+
+export type SecurityEvent = Tables<'security_events'>;
+
+export type Invitation = Omit<Tables<'invitations'>, 'token_hash'>;
+
+export type OrgRole = Enums<'org_role'>;
+
+export type Organization = Tables<'organizations'>;
+
+export interface OrganizationMembership {
+  organization: Organization;
+  role: OrgRole;
+}
+
+// An invitation to join an organization, as the invitee sees it
+export interface OrganizationInvitation {
   id: string;
-  first_name: string;
-  last_name: string;
-  phone_number?: string;
+  organization_id: string;
+  organization_name: string;
+  organization_role: OrgRole;
+  invited_by_name: string | null;
   created_at: string;
-  updated_at: string;
+  expires_at: string;
 }
 
-export interface LoginHistory {
-  id: string;
+export interface OrganizationMember {
   user_id: string;
-  login_timestamp: string;
-  ip_address: string;
-  device_info: string;
-  success: boolean;
-  failure_reason?: string;
+  email: string;
+  first_name: string;
+  last_name: string;
+  avatar_url: string | null;
+  role: OrgRole;
+  joined_at: string;
 }
 
-export interface ProfileChange {
+export interface ActiveSession {
   id: string;
-  user_id: string;
-  field_changed: string;
-  old_value?: string;
-  new_value?: string;
-  change_timestamp: string;
-  changed_by: string;
-}
\ No newline at end of file
+  created_at: string;
+  last_active_at: string;
+  ip_address: string | null;
+  device_info: string | null;
+  aal: string | null;
+  is_current: boolean;
+}
+
+export type AccountDeletionRequest = Tables<'account_deletion_requests'>;
+
+export type NotificationType = 'new_device' | 'new_ip' | 'suspicious_login';
+
+export interface Notification extends Omit<Tables<'notifications'>, 'type' | 'metadata'> {
+  type: NotificationType;
+  metadata: {
+    login_id?: string;
+    session_id?: string | null;
+    ip_address?: string | null;
+    device_info?: string | null;
+    risk_flags?: LoginRiskFlag[];
+  };
+}
+
+export type RetentionTable =
+  | 'login_history'
+  | 'profile_changes'
+  | 'notifications'
+  | 'account_lockouts'
+  | 'security_events';
+
+// PostgREST sends intervals in Postgres' own text form, e.g. "1 year 6 mons"
+export interface RetentionPolicy extends Omit<
+  Tables<'retention_policies'>,
+  'table_name' | 'pseudonymize_after' | 'retain_for' | 'expired_action' | 'archive_retain_for'
+> {
+  table_name: RetentionTable;
+  pseudonymize_after: string | null;
+  retain_for: string;
+  expired_action: 'delete' | 'archive';
+  // Set exactly when expired_action is archive
+  archive_retain_for: string | null;
+}
+
+export interface RetentionRun extends Omit<Tables<'retention_runs'>, 'status'> {
+  status: 'running' | 'succeeded' | 'failed';
+}
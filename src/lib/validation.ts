@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { E164_PATTERN } from './phone';
+
+export const phoneNumberSchema = z.string()
+  .regex(E164_PATTERN, 'Enter a valid phone number')
+  .or(z.literal(''))
+  .optional();
@@ -0,0 +1,265 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Check, Copy, UserPlus } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useRepositories } from '../hooks/useRepositories';
+import Pagination from '../components/Pagination';
+import Can from '../components/Can';
+import SignupSettings from '../components/SignupSettings';
+import toast from 'react-hot-toast';
+import type { Invitation } from '../lib/types';
+
+const PAGE_SIZE = 20;
+
+const expiryOptions = [1, 3, 7, 14, 30];
+
+const invitationSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  role: z.enum(['', 'admin', 'support']),
+  expiresInDays: z.coerce.number().int().positive(),
+});
+
+type InvitationForm = z.infer<typeof invitationSchema>;
+
+type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+const statusStyles: Record<InvitationStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-green-100 text-green-800',
+  revoked: 'bg-gray-100 text-gray-800',
+  expired: 'bg-red-100 text-red-800',
+};
+
+function invitationStatus(invitation: Invitation): InvitationStatus {
+  if (invitation.accepted_at) return 'accepted';
+  if (invitation.revoked_at) return 'revoked';
+  if (new Date(invitation.expires_at) <= new Date()) return 'expired';
+  return 'pending';
+}
+
+export default function AdminInvitations() {
+  const { invitations: invitationsRepo } = useRepositories();
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const { register, handleSubmit, reset, formState: { errors, isSubmitting } } = useForm<InvitationForm>({
+    resolver: zodResolver(invitationSchema),
+    defaultValues: { email: '', role: '', expiresInDays: 7 },
+  });
+
+  // The route guard has already checked for users:invite
+  const loadInvitations = useCallback(async () => {
+    try {
+      const { rows, total } = await invitationsRepo.list({ offset: page * PAGE_SIZE, limit: PAGE_SIZE });
+      setInvitations(rows);
+      setTotal(total);
+    } catch {
+      toast.error('Failed to load invitations');
+    }
+  }, [page, invitationsRepo]);
+
+  useEffect(() => {
+    loadInvitations();
+  }, [loadInvitations]);
+
+  const onSubmit = async (data: InvitationForm) => {
+    const expiresAt = new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000);
+    const { data: token, error } = await supabase.rpc('create_invitation', {
+      p_email: data.email,
+      p_role: data.role || undefined,
+      p_expires_at: expiresAt.toISOString(),
+    });
+
+    if (error) {
+      toast.error(error.code === '23505' ? 'An account with this email already exists' : 'Failed to create invitation');
+      return;
+    }
+
+    // The token is only ever returned here; the database keeps a hash
+    setInviteLink(`${window.location.origin}/register?invite=${encodeURIComponent(token)}`);
+    setCopied(false);
+    reset();
+    toast.success(`Invitation created for ${data.email}`);
+    await loadInvitations();
+  };
+
+  const handleCopy = async () => {
+    if (!inviteLink) return;
+
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+      setCopied(true);
+    } catch {
+      toast.error('Copy the link manually');
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    const { error } = await supabase.rpc('revoke_invitation', { p_invitation_id: invitation.id });
+
+    if (error) {
+      toast.error('Failed to revoke invitation');
+      return;
+    }
+
+    toast.success(`Invitation for ${invitation.email} revoked`);
+    await loadInvitations();
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+      <Can permission="settings:manage">
+        <SignupSettings />
+      </Can>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-2xl font-semibold text-gray-900 mb-6">Invite a user</h2>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="grid grid-cols-1 gap-4 sm:grid-cols-4 sm:items-end">
+          <div className="sm:col-span-2">
+            <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+              Email address
+            </label>
+            <div className="mt-1">
+              <input
+                {...register('email')}
+                type="email"
+                className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              />
+              {errors.email && (
+                <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
+              )}
+            </div>
+          </div>
+
+          <Can permission="roles:manage">
+            <div>
+              <label htmlFor="role" className="block text-sm font-medium text-gray-700">
+                Role
+              </label>
+              <select
+                {...register('role')}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              >
+                <option value="">None</option>
+                <option value="support">Support</option>
+                <option value="admin">Admin</option>
+              </select>
+            </div>
+          </Can>
+
+          <div>
+            <label htmlFor="expiresInDays" className="block text-sm font-medium text-gray-700">
+              Expires after
+            </label>
+            <select
+              {...register('expiresInDays')}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              {expiryOptions.map((days) => (
+                <option key={days} value={days}>
+                  {days} day{days === 1 ? '' : 's'}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="sm:col-span-4">
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              <UserPlus className="h-4 w-4 mr-2" />
+              {isSubmitting ? 'Creating...' : 'Create invitation'}
+            </button>
+          </div>
+        </form>
+
+        {inviteLink && (
+          <div className="mt-6 rounded-md bg-green-50 p-4">
+            <p className="text-sm font-medium text-green-800">
+              Send this link to the invitee. It will not be shown again.
+            </p>
+            <div className="mt-2 flex items-center space-x-3">
+              <code className="flex-1 truncate rounded bg-white px-2 py-1 text-sm text-gray-700">{inviteLink}</code>
+              <button
+                type="button"
+                onClick={handleCopy}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                {copied ? <Check className="h-4 w-4 mr-2" /> : <Copy className="h-4 w-4 mr-2" />}
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-2xl font-semibold text-gray-900 mb-6">Invitations</h2>
+
+        <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 sm:rounded-lg">
+          <table className="min-w-full divide-y divide-gray-300">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900">Email</th>
+                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Role</th>
+                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Created</th>
+                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Expires</th>
+                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Status</th>
+                <th className="px-3 py-3.5" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {invitations.map((invitation) => {
+                const status = invitationStatus(invitation);
+
+                return (
+                  <tr key={invitation.id}>
+                    <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm text-gray-900">{invitation.email}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500 capitalize">{invitation.role ?? '-'}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                      {new Date(invitation.created_at).toLocaleString()}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                      {new Date(invitation.expires_at).toLocaleString()}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm">
+                      <span className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 capitalize ${statusStyles[status]}`}>
+                        {status}
+                      </span>
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-4 text-right text-sm">
+                      {status === 'pending' && (
+                        <button
+                          type="button"
+                          onClick={() => handleRevoke(invitation)}
+                          className="font-medium text-red-600 hover:text-red-500"
+                        >
+                          Revoke
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+              {invitations.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="py-6 text-center text-sm text-gray-500">
+                    No invitations yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+          <Pagination page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} />
+        </div>
+      </div>
+    </div>
+  );
+}
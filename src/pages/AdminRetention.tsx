@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { useRepositories } from '../hooks/useRepositories';
+import toast from 'react-hot-toast';
+import type { RetentionPolicy, RetentionRun, RetentionTable } from '../lib/types';
+
+const RECENT_RUNS = 10;
+
+const tableLabels: Record<RetentionTable, string> = {
+  login_history: 'Login history',
+  profile_changes: 'Profile changes',
+  notifications: 'Notifications',
+  account_lockouts: 'Account lockouts',
+  security_events: 'Security events',
+};
+
+const statusStyles: Record<RetentionRun['status'], string> = {
+  running: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+export default function AdminRetention() {
+  const { retention } = useRepositories();
+  const [policies, setPolicies] = useState<RetentionPolicy[]>([]);
+  const [runs, setRuns] = useState<RetentionRun[]>([]);
+
+  // The route guard has already checked for settings:manage
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([retention.listPolicies(), retention.listRuns(RECENT_RUNS)]).then(
+      ([nextPolicies, nextRuns]) => {
+        if (cancelled) return;
+        setPolicies(nextPolicies);
+        setRuns(nextRuns);
+      },
+      () => {
+        if (!cancelled) toast.error('Failed to load retention policies');
+      }
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [retention]);
+
+  const lastRun = runs[0];
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-2xl font-semibold text-gray-900 mb-2">Retention policies</h2>
+        <p className="text-sm text-gray-500 mb-6">
+          Applied daily at 03:30 UTC. Pseudonymized rows keep only the network part of their IP address
+          and their device family.
+        </p>
+
+        <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 sm:rounded-lg">
+          <table className="min-w-full divide-y divide-gray-300">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900">Table</th>
+                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Pseudonymize IPs after</th>
+                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Keep for</th>
+                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Then</th>
+                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Archive kept for</th>
+                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Last changed</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {policies.map((policy) => (
+                <tr key={policy.table_name}>
+                  <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm text-gray-900">{tableLabels[policy.table_name]}</td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{policy.pseudonymize_after ?? '-'}</td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{policy.retain_for}</td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500 capitalize">{policy.expired_action}</td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{policy.archive_retain_for ?? '-'}</td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                    {new Date(policy.updated_at).toLocaleString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-2xl font-semibold text-gray-900 mb-2">Retention job</h2>
+        <p className="text-sm text-gray-500 mb-6">
+          {lastRun
+            ? `Last ran ${new Date(lastRun.started_at).toLocaleString()}.`
+            : 'The job has not run yet.'}
+        </p>
+
+        {runs.length > 0 && (
+          <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 sm:rounded-lg">
+            <table className="min-w-full divide-y divide-gray-300">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900">Started</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Status</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Pseudonymized</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Archived</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Deleted</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Error</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 bg-white">
+                {runs.map((run) => (
+                  <tr key={run.id}>
+                    <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm text-gray-900">
+                      {new Date(run.started_at).toLocaleString()}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm">
+                      <span className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 capitalize ${statusStyles[run.status]}`}>
+                        {run.status}
+                      </span>
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{run.pseudonymized_count}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{run.archived_count}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{run.deleted_count}</td>
+                    <td className="px-3 py-4 text-sm text-red-600">{run.error ?? ''}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react';
+import { Search, Lock } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import Pagination from '../components/Pagination';
+import Can from '../components/Can';
+import toast from 'react-hot-toast';
+import type { AdminUser } from '../lib/types';
+
+const PAGE_SIZE = 20;
+
+export default function AdminUsers() {
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  // Debounce the search box so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setQuery(search.trim());
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  // The route guard has already checked for users:read
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    supabase
+      .rpc('admin_list_users', {
+        p_search: query || undefined,
+        p_limit: PAGE_SIZE,
+        p_offset: page * PAGE_SIZE,
+      })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        setLoading(false);
+
+        if (error) {
+          toast.error('Failed to load users');
+          return;
+        }
+
+        const rows = (data ?? []) as AdminUser[];
+        setUsers(rows);
+        setTotal(rows.length > 0 ? Number(rows[0].total_count) : 0);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, page]);
+
+  const handleUnlock = async (userId: string) => {
+    const { error } = await supabase.rpc('admin_unlock_account', { p_user_id: userId });
+
+    if (error) {
+      toast.error('Failed to unlock account');
+      return;
+    }
+
+    setUsers((current) =>
+      current.map((user) => (user.id === userId ? { ...user, locked_until: null } : user))
+    );
+    toast.success('Account unlocked');
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="sm:flex sm:items-center sm:justify-between mb-6">
+          <h2 className="text-2xl font-semibold text-gray-900">Users</h2>
+          <div className="mt-4 sm:mt-0 relative">
+            <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+            <input
+              type="search"
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder="Search by name or email"
+              className="appearance-none block w-full sm:w-72 pl-9 pr-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+          </div>
+        </div>
+
+        <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 sm:rounded-lg">
+          <table className="min-w-full divide-y divide-gray-300">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900">Name</th>
+                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Email</th>
+                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Phone</th>
+                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Joined</th>
+                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Last Login</th>
+                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {users.map((user) => (
+                <tr key={user.id}>
+                  <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm text-gray-900">
+                    {`${user.first_name} ${user.last_name}`.trim() || '-'}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{user.email}</td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{user.phone_number || '-'}</td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                    {new Date(user.created_at).toLocaleDateString()}
+                  </td>
+                  <td className="px-3 py-4 text-sm text-gray-500">
+                    {user.last_login_at ? (
+                      <>
+                        <div>{new Date(user.last_login_at).toLocaleString()}</div>
+                        <div className="text-xs text-gray-400 truncate max-w-xs">
+                          {[user.last_login_ip, user.last_login_device].filter(Boolean).join(' · ')}
+                        </div>
+                      </>
+                    ) : (
+                      'Never'
+                    )}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm">
+                    {user.locked_until ? (
+                      <div className="flex items-center space-x-3">
+                        <span
+                          className="inline-flex items-center rounded-full bg-red-100 px-2 text-xs font-semibold leading-5 text-red-800"
+                          title={`Locked until ${new Date(user.locked_until).toLocaleString()}`}
+                        >
+                          <Lock className="h-3 w-3 mr-1" />
+                          Locked
+                        </span>
+                        <Can permission="users:unlock">
+                          <button
+                            type="button"
+                            onClick={() => handleUnlock(user.id)}
+                            className="text-sm font-medium text-indigo-600 hover:text-indigo-500"
+                          >
+                            Unlock
+                          </button>
+                        </Can>
+                      </div>
+                    ) : (
+                      <span className="inline-flex rounded-full bg-green-100 px-2 text-xs font-semibold leading-5 text-green-800">
+                        Active
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {!loading && users.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="py-6 text-center text-sm text-gray-500">
+                    No users found.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+          <Pagination page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import type { EmailOtpType } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+
+// Errors come back in the query string (PKCE) or the fragment (implicit flow)
+function readCallbackParams() {
+  const params = new URLSearchParams(window.location.search);
+  new URLSearchParams(window.location.hash.slice(1)).forEach((value, key) => {
+    if (!params.has(key)) params.set(key, value);
+  });
+  return params;
+}
+
+export default function AuthCallback() {
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const finish = async () => {
+      const params = readCallbackParams();
+      const errorDescription = params.get('error_description');
+
+      if (errorDescription) {
+        setError(errorDescription);
+        return;
+      }
+
+      // Email templates that link with a token hash need it verified here;
+      // links carrying a session or code are picked up by the client itself
+      const tokenHash = params.get('token_hash');
+      const type = params.get('type') as EmailOtpType | null;
+
+      if (tokenHash && type) {
+        const { error: verifyError } = await supabase.auth.verifyOtp({ token_hash: tokenHash, type });
+        if (verifyError) {
+          if (!cancelled) setError(verifyError.message);
+          return;
+        }
+      }
+
+      const { data: { session } } = await supabase.auth.getSession();
+      if (cancelled) return;
+
+      if (!session) {
+        setError('This link is invalid or has expired.');
+        return;
+      }
+
+      navigate('/', { replace: true });
+    };
+
+    finish();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [navigate]);
+
+  if (!error) {
+    return <p className="text-sm text-center text-gray-600">Finishing sign-in...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-md bg-red-50 p-4">
+        <p className="text-sm text-red-700">{error}</p>
+      </div>
+      <div className="text-sm text-center">
+        <Link to="/login" className="font-medium text-indigo-600 hover:text-indigo-500">
+          Back to sign in
+        </Link>
+      </div>
+    </div>
+  );
+}
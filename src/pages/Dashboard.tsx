@@ -1,17 +1,188 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, ChevronRight, Clock, KeyRound, LogIn, ShieldAlert, ShieldCheck, UserCog } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
+import { useSecurityOverview, type ActivityItem } from '../hooks/useSecurityOverview';
+import OrganizationInvitations from '../components/OrganizationInvitations';
+import { describeDevice } from '../lib/device';
+import { describeSecurityEvent } from '../lib/securityEvents';
+
+interface AttentionItem {
+  message: string;
+  to: string;
+}
+
+function describeActivity(item: ActivityItem) {
+  switch (item.kind) {
+    case 'login':
+      return item.login.success
+        ? `Signed in from ${describeDevice(item.login.device_info)}`
+        : `Failed sign-in${item.login.failure_reason ? ` (${item.login.failure_reason})` : ''}`;
+    case 'profile_change':
+      return `Changed ${item.change.field_changed.replace(/_/g, ' ')}`;
+    case 'security_event':
+      return describeSecurityEvent(item.event.event_type);
+  }
+}
+
+function activityKey(item: ActivityItem) {
+  switch (item.kind) {
+    case 'login':
+      return `login-${item.login.id}`;
+    case 'profile_change':
+      return `change-${item.change.id}`;
+    case 'security_event':
+      return `event-${item.event.id}`;
+  }
+}
+
+function activityIcon(item: ActivityItem) {
+  switch (item.kind) {
+    case 'login':
+      return item.login.success ? LogIn : ShieldAlert;
+    case 'profile_change':
+      return UserCog;
+    case 'security_event':
+      return KeyRound;
+  }
+}
 
 export default function Dashboard() {
   const { user } = useAuth();
+  const { overview, loading } = useSecurityOverview();
+
+  const attention: AttentionItem[] = [];
+  if (overview) {
+    if (overview.failedSinceLastLogin > 0) {
+      attention.push({
+        message: `${overview.failedSinceLastLogin} failed sign-in attempt${overview.failedSinceLastLogin === 1 ? '' : 's'} since your last sign-in`,
+        to: '/profile#login-history',
+      });
+    }
+    if (!overview.mfaEnabled) {
+      attention.push({ message: 'Two-factor authentication is not enabled', to: '/profile#security' });
+    } else if (overview.recoveryCodesRemaining < 3) {
+      attention.push({
+        message: `Only ${overview.recoveryCodesRemaining} recovery code${overview.recoveryCodesRemaining === 1 ? '' : 's'} left`,
+        to: '/profile#security',
+      });
+    }
+    if (overview.deletionScheduledFor) {
+      attention.push({
+        message: `Your account will be deleted on ${new Date(overview.deletionScheduledFor).toLocaleDateString()}`,
+        to: '/profile#data',
+      });
+    }
+  }
 
   return (
-    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-8">
       <div className="bg-white shadow rounded-lg p-6">
         <h1 className="text-2xl font-semibold text-gray-900">Welcome back!</h1>
         <p className="mt-2 text-gray-600">
           You are signed in as {user?.email}
         </p>
       </div>
+
+      <OrganizationInvitations />
+
+      {!loading && overview && (
+        <>
+          <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-4">
+            <div className="bg-white shadow rounded-lg p-6">
+              <p className="text-sm font-medium text-gray-500">Last sign-in</p>
+              <p className="mt-2 text-lg font-semibold text-gray-900">
+                {overview.lastLogin ? new Date(overview.lastLogin.login_timestamp).toLocaleString() : 'First sign-in'}
+              </p>
+              {overview.lastLogin && (
+                <p className="mt-1 text-sm text-gray-500 truncate">
+                  {describeDevice(overview.lastLogin.device_info)}
+                  {overview.lastLogin.ip_address && ` · ${overview.lastLogin.ip_address}`}
+                </p>
+              )}
+            </div>
+
+            <div className="bg-white shadow rounded-lg p-6">
+              <p className="text-sm font-medium text-gray-500">Failed attempts since then</p>
+              <p className={`mt-2 text-lg font-semibold ${overview.failedSinceLastLogin > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                {overview.failedSinceLastLogin}
+              </p>
+            </div>
+
+            <div className="bg-white shadow rounded-lg p-6">
+              <p className="text-sm font-medium text-gray-500">Two-factor authentication</p>
+              <p className="mt-2 flex items-center text-lg font-semibold text-gray-900">
+                {overview.mfaEnabled ? (
+                  <>
+                    <ShieldCheck className="h-5 w-5 mr-2 text-green-600" />
+                    Enabled
+                  </>
+                ) : (
+                  <>
+                    <ShieldAlert className="h-5 w-5 mr-2 text-yellow-500" />
+                    Not enabled
+                  </>
+                )}
+              </p>
+            </div>
+
+            <div className="bg-white shadow rounded-lg p-6">
+              <p className="text-sm font-medium text-gray-500">Profile last changed</p>
+              <p className="mt-2 text-lg font-semibold text-gray-900">
+                {overview.profileLastChangedAt ? new Date(overview.profileLastChangedAt).toLocaleString() : 'Never'}
+              </p>
+            </div>
+          </div>
+
+          {attention.length > 0 && (
+            <div className="bg-white shadow rounded-lg p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Needs your attention</h3>
+              <ul className="divide-y divide-gray-200">
+                {attention.map((item) => (
+                  <li key={item.message}>
+                    <Link to={item.to} className="flex items-center justify-between py-3 group">
+                      <span className="flex items-center text-sm text-gray-700">
+                        <AlertTriangle className="h-5 w-5 mr-3 text-yellow-500" />
+                        {item.message}
+                      </span>
+                      <ChevronRight className="h-5 w-5 text-gray-400 group-hover:text-gray-600" />
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="bg-white shadow rounded-lg p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Recent activity</h3>
+            {overview.activity.length > 0 ? (
+              <ul className="space-y-4">
+                {overview.activity.map((item) => {
+                  const Icon = activityIcon(item);
+                  const failed = item.kind === 'login' && !item.login.success;
+
+                  return (
+                    <li key={activityKey(item)} className="flex items-start">
+                      <span className={`flex h-8 w-8 items-center justify-center rounded-full ${failed ? 'bg-red-100' : 'bg-gray-100'}`}>
+                        <Icon className={`h-4 w-4 ${failed ? 'text-red-600' : 'text-gray-500'}`} />
+                      </span>
+                      <div className="ml-3">
+                        <p className="text-sm text-gray-900">{describeActivity(item)}</p>
+                        <p className="flex items-center text-xs text-gray-500">
+                          <Clock className="h-3 w-3 mr-1" />
+                          {new Date(item.at).toLocaleString()}
+                        </p>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            ) : (
+              <p className="text-gray-500 text-sm">No activity recorded yet.</p>
+            )}
+          </div>
+        </>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,45 @@
+import { Link } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import type { AccessDenial } from '../lib/access';
+
+interface ForbiddenProps {
+  reason: AccessDenial;
+}
+
+export default function Forbidden({ reason }: ForbiddenProps) {
+  const { mfaEnabled } = useAuth();
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="bg-white shadow rounded-lg p-12 text-center">
+        <ShieldAlert className="mx-auto h-12 w-12 text-red-500" />
+        <p className="mt-4 text-sm font-semibold text-red-600">403</p>
+        <h1 className="mt-1 text-2xl font-semibold text-gray-900">You don't have access to this page</h1>
+        <p className="mt-2 text-gray-600">
+          {reason === 'mfa'
+            ? mfaEnabled
+              ? 'This page requires a session verified with two-factor authentication. Sign out and sign in again with your authenticator.'
+              : 'This page requires two-factor authentication. Set it up on your profile, then sign in again.'
+            : 'Your account does not have the role or permission this page needs. Contact an administrator if you think this is a mistake.'}
+        </p>
+        <div className="mt-6 flex justify-center space-x-3">
+          <Link
+            to="/"
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Back to dashboard
+          </Link>
+          {reason === 'mfa' && !mfaEnabled && (
+            <Link
+              to="/profile#security"
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              Set up two-factor authentication
+            </Link>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,60 +1,64 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Clock, Lock, Mail, MailWarning } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { idleTimeoutMs } from '../lib/idle';
+import ResendConfirmationButton from '../components/ResendConfirmationButton';
+import OAuthButtons from '../components/OAuthButtons';
 import toast from 'react-hot-toast';
 
 const loginSchema = z.object({
   email: z.string().email('Invalid email address'),
-  password: z.string().min(8, 'Password must be at least 8 characters'),
+  // Not the password policy: passwords set under older rules must still work
+  password: z.string().min(1, 'Enter your password'),
 });
 
 type LoginForm = z.infer<typeof loginSchema>;
 
+// The password hook rejects locked accounts with "Account locked until <ISO timestamp>"
+function lockedUntilFromError(message: string) {
+  const match = /^Account locked until (\S+)$/.exec(message);
+  return match ? new Date(match[1]) : null;
+}
+
 export default function Login() {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const signedOutIdle = searchParams.get('reason') === 'idle';
   const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<LoginForm>({
     resolver: zodResolver(loginSchema),
   });
-
-  const recordLoginAttempt = async (userId: string, success: boolean, failureReason?: string) => {
-    try {
-      const deviceInfo = `${navigator.platform} - ${navigator.userAgent}`;
-      
-      await supabase
-        .from('login_history')
-        .insert({
-          user_id: userId,
-          success,
-          device_info: deviceInfo,
-          failure_reason: failureReason,
-          // IP address will be automatically recorded by Supabase
-        });
-    } catch (error) {
-      console.error('Failed to record login attempt:', error);
-    }
-  };
+  const [lockedUntil, setLockedUntil] = useState<Date | null>(null);
+  const [unconfirmedEmail, setUnconfirmedEmail] = useState<string | null>(null);
 
   const onSubmit = async (data: LoginForm) => {
+    setLockedUntil(null);
+    setUnconfirmedEmail(null);
+
     try {
-      const { data: authData, error } = await supabase.auth.signInWithPassword({
+      // Failed attempts are counted by the auth server's password hook, which
+      // also rejects sign-ins to a locked account
+      const { error } = await supabase.auth.signInWithPassword({
         email: data.email,
         password: data.password,
       });
 
-      if (error) {
-        await recordLoginAttempt(
-          data.email, // Using email as identifier for failed attempts
-          false,
-          error.message
-        );
-        throw error;
+      // The password was right, so this is not a failed attempt
+      if (error?.code === 'email_not_confirmed') {
+        setUnconfirmedEmail(data.email);
+        return;
       }
 
-      if (authData.user) {
-        await recordLoginAttempt(authData.user.id, true);
+      if (error) {
+        const lockout = lockedUntilFromError(error.message);
+        if (lockout) {
+          setLockedUntil(lockout);
+          return;
+        }
+        throw error;
       }
 
       navigate('/');
@@ -65,6 +69,52 @@ export default function Login() {
 
   return (
     <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      {signedOutIdle && !lockedUntil && !unconfirmedEmail && (
+        <div className="rounded-md bg-yellow-50 p-4">
+          <div className="flex">
+            <Clock className="h-5 w-5 text-yellow-400 flex-shrink-0" />
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-yellow-800">You were signed out</h3>
+              <p className="mt-1 text-sm text-yellow-700">
+                Your session ended after {idleTimeoutMs / 60000} minutes of inactivity. Sign in again to continue.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {lockedUntil && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="flex">
+            <Lock className="h-5 w-5 text-red-400 flex-shrink-0" />
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800">Account temporarily locked</h3>
+              <p className="mt-1 text-sm text-red-700">
+                Too many failed sign-in attempts. You can try again after{' '}
+                {lockedUntil.toLocaleString()}.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {unconfirmedEmail && (
+        <div className="rounded-md bg-yellow-50 p-4">
+          <div className="flex">
+            <MailWarning className="h-5 w-5 text-yellow-400 flex-shrink-0" />
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-yellow-800">Confirm your email address</h3>
+              <p className="mt-1 text-sm text-yellow-700">
+                Your account has not been activated yet. Follow the link we sent to {unconfirmedEmail}.
+              </p>
+              <div className="mt-3">
+                <ResendConfirmationButton email={unconfirmedEmail} />
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       <div>
         <label htmlFor="email" className="block text-sm font-medium text-gray-700">
           Email address
@@ -82,9 +132,14 @@ export default function Login() {
       </div>
 
       <div>
-        <label htmlFor="password" className="block text-sm font-medium text-gray-700">
-          Password
-        </label>
+        <div className="flex items-center justify-between">
+          <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+            Password
+          </label>
+          <Link to="/forgot-password" className="text-sm font-medium text-indigo-600 hover:text-indigo-500">
+            Forgot your password?
+          </Link>
+        </div>
         <div className="mt-1">
           <input
             {...register('password')}
@@ -107,6 +162,26 @@ export default function Login() {
         </button>
       </div>
 
+      <div className="relative">
+        <div className="absolute inset-0 flex items-center">
+          <div className="w-full border-t border-gray-300" />
+        </div>
+        <div className="relative flex justify-center text-sm">
+          <span className="px-2 bg-white text-gray-500">Or</span>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <Link
+          to="/magic-link"
+          className="w-full flex items-center justify-center py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          <Mail className="h-5 w-5 mr-2" />
+          Email me a sign-in link
+        </Link>
+        <OAuthButtons />
+      </div>
+
       <div className="text-sm text-center">
         <Link to="/register" className="font-medium text-indigo-600 hover:text-indigo-500">
           Don't have an account? Sign up
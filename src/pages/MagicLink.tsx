@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Link } from 'react-router-dom';
+import { MailCheck } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import toast from 'react-hot-toast';
+
+const magicLinkSchema = z.object({
+  email: z.string().email('Invalid email address'),
+});
+
+type MagicLinkForm = z.infer<typeof magicLinkSchema>;
+
+export default function MagicLink() {
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<MagicLinkForm>({
+    resolver: zodResolver(magicLinkSchema),
+  });
+
+  const onSubmit = async (data: MagicLinkForm) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email: data.email,
+      options: {
+        emailRedirectTo: `${window.location.origin}/auth/callback`,
+        shouldCreateUser: false,
+      },
+    });
+
+    // Unknown addresses are rejected with otp_disabled because sign-up is off
+    // here; treat that like success so the form doesn't reveal who has an account
+    if (error && error.code !== 'otp_disabled') {
+      toast.error(
+        error.code === 'over_email_send_rate_limit'
+          ? 'Too many emails sent. Please wait a few minutes and try again.'
+          : 'Failed to send sign-in link. Please try again.'
+      );
+      return;
+    }
+
+    setSentTo(data.email);
+  };
+
+  if (sentTo) {
+    return (
+      <div className="space-y-6 text-center">
+        <MailCheck className="mx-auto h-10 w-10 text-indigo-600" />
+        <p className="text-sm text-gray-600">
+          If an account exists for <span className="font-medium text-gray-900">{sentTo}</span>, you'll
+          receive an email with a link that signs you in.
+        </p>
+        <Link to="/login" className="block text-sm font-medium text-indigo-600 hover:text-indigo-500">
+          Back to sign in
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      <p className="text-sm text-gray-600">
+        Enter the email address for your account and we'll send you a link that signs you in without a password.
+      </p>
+
+      <div>
+        <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+          Email address
+        </label>
+        <div className="mt-1">
+          <input
+            {...register('email')}
+            type="email"
+            className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          />
+          {errors.email && (
+            <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+        >
+          {isSubmitting ? 'Sending...' : 'Send sign-in link'}
+        </button>
+      </div>
+
+      <div className="text-sm text-center">
+        <Link to="/login" className="font-medium text-indigo-600 hover:text-indigo-500">
+          Sign in with a password instead
+        </Link>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import toast from 'react-hot-toast';
+
+const totpSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app'),
+});
+
+const recoverySchema = z.object({
+  code: z.string().min(10, 'Enter one of your recovery codes'),
+});
+
+type TotpForm = z.infer<typeof totpSchema>;
+type RecoveryForm = z.infer<typeof recoverySchema>;
+
+export default function MfaChallenge() {
+  const navigate = useNavigate();
+  const { signOut } = useAuth();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const handleCancel = async () => {
+    await signOut();
+    navigate('/login');
+  };
+
+  return (
+    <div className="space-y-6">
+      {useRecoveryCode ? <RecoveryCodeStep /> : <TotpStep />}
+
+      <div className="flex justify-between text-sm">
+        <button
+          type="button"
+          onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+          className="font-medium text-indigo-600 hover:text-indigo-500"
+        >
+          {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+        </button>
+        <button
+          type="button"
+          onClick={handleCancel}
+          className="font-medium text-gray-600 hover:text-gray-500"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function TotpStep() {
+  const navigate = useNavigate();
+  const { refreshMfa } = useAuth();
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<TotpForm>({
+    resolver: zodResolver(totpSchema),
+  });
+
+  const onSubmit = async (data: TotpForm) => {
+    const { data: factors, error: factorsError } = await supabase.auth.mfa.listFactors();
+    const factor = factors?.totp[0];
+
+    if (factorsError || !factor) {
+      toast.error('No authenticator is enrolled for this account.');
+      return;
+    }
+
+    const { error } = await supabase.auth.mfa.challengeAndVerify({
+      factorId: factor.id,
+      code: data.code,
+    });
+
+    if (error) {
+      toast.error('Invalid code. Please try again.');
+      return;
+    }
+
+    await refreshMfa();
+    navigate('/');
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      <p className="text-sm text-gray-600">
+        Open your authenticator app and enter the 6-digit code for this account.
+      </p>
+
+      <div>
+        <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+          Authentication code
+        </label>
+        <div className="mt-1">
+          <input
+            {...register('code')}
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            autoFocus
+            className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm tracking-widest"
+          />
+          {errors.code && (
+            <p className="mt-1 text-sm text-red-600">{errors.code.message}</p>
+          )}
+        </div>
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+      >
+        {isSubmitting ? 'Verifying...' : 'Verify'}
+      </button>
+    </form>
+  );
+}
+
+function RecoveryCodeStep() {
+  const navigate = useNavigate();
+  const { refreshMfa } = useAuth();
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<RecoveryForm>({
+    resolver: zodResolver(recoverySchema),
+  });
+
+  const onSubmit = async (data: RecoveryForm) => {
+    const { data: redeemed, error } = await supabase.rpc('redeem_recovery_code', {
+      p_code: data.code,
+    });
+
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+
+    if (!redeemed) {
+      toast.error('That recovery code is invalid or has already been used.');
+      return;
+    }
+
+    // The authenticator was removed server-side; pick up the new factor list
+    await supabase.auth.refreshSession();
+    await refreshMfa();
+    toast.success('Recovery code accepted. Please set up a new authenticator.');
+    navigate('/profile');
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      <p className="text-sm text-gray-600">
+        Enter one of the recovery codes you saved when you set up two-factor authentication.
+        Your current authenticator will be removed so you can enroll a new one.
+      </p>
+
+      <div>
+        <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+          Recovery code
+        </label>
+        <div className="mt-1">
+          <input
+            {...register('code')}
+            type="text"
+            autoComplete="off"
+            autoFocus
+            className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm font-mono"
+          />
+          {errors.code && (
+            <p className="mt-1 text-sm text-red-600">{errors.code.message}</p>
+          )}
+        </div>
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+      >
+        {isSubmitting ? 'Verifying...' : 'Use recovery code'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,73 @@
+import { useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { supabase } from '../lib/supabase';
+import { useOrganizations } from '../hooks/useOrganizations';
+import toast from 'react-hot-toast';
+
+const organizationSchema = z.object({
+  name: z.string().trim().min(2, 'Name must be at least 2 characters').max(100, 'Name must be at most 100 characters'),
+});
+
+type OrganizationForm = z.infer<typeof organizationSchema>;
+
+export default function NewOrganization() {
+  const navigate = useNavigate();
+  const { refreshOrganizations, switchOrganization } = useOrganizations();
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<OrganizationForm>({
+    resolver: zodResolver(organizationSchema),
+  });
+
+  const onSubmit = async (data: OrganizationForm) => {
+    const { data: organizationId, error } = await supabase.rpc('create_organization', { p_name: data.name });
+
+    if (error) {
+      toast.error('Failed to create organization');
+      return;
+    }
+
+    await refreshOrganizations();
+    switchOrganization(organizationId);
+    toast.success(`${data.name} created`);
+    navigate('/organization');
+  };
+
+  return (
+    <div className="max-w-xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-2xl font-semibold text-gray-900 mb-2">New organization</h2>
+        <p className="text-sm text-gray-500 mb-6">
+          You will be its owner and can invite your team once it is created.
+        </p>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <label htmlFor="name" className="block text-sm font-medium text-gray-700">
+              Name
+            </label>
+            <div className="mt-1">
+              <input
+                {...register('name')}
+                type="text"
+                autoComplete="organization"
+                className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              />
+              {errors.name && (
+                <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>
+              )}
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {isSubmitting ? 'Creating...' : 'Create organization'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,360 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, Navigate, useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Check, Copy, UserPlus } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { useOrganizations } from '../hooks/useOrganizations';
+import { useRepositories } from '../hooks/useRepositories';
+import Avatar from '../components/Avatar';
+import LoadingScreen from '../components/LoadingScreen';
+import toast from 'react-hot-toast';
+import type { Invitation, OrgRole, OrganizationMember } from '../lib/types';
+
+const roleLabels: Record<OrgRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+};
+
+const inviteSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  role: z.enum(['owner', 'admin', 'member']),
+});
+
+type InviteForm = z.infer<typeof inviteSchema>;
+
+export default function Organization() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { current, isOrganizationAdmin, loading, refreshOrganizations } = useOrganizations();
+  const { invitations: invitationsRepo } = useRepositories();
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const { register, handleSubmit, reset, formState: { errors, isSubmitting } } = useForm<InviteForm>({
+    resolver: zodResolver(inviteSchema),
+    defaultValues: { email: '', role: 'member' },
+  });
+
+  const organizationId = current?.organization.id;
+  const isOwner = current?.role === 'owner';
+
+  const loadMembers = useCallback(async () => {
+    if (!organizationId) return;
+
+    const { data, error } = await supabase.rpc('list_organization_members', { p_organization_id: organizationId });
+
+    if (error) {
+      toast.error('Failed to load members');
+      return;
+    }
+
+    setMembers(data);
+  }, [organizationId]);
+
+  // Only owners and admins can see their organization's invitations
+  const loadInvitations = useCallback(async () => {
+    if (!organizationId || !isOrganizationAdmin) {
+      setInvitations([]);
+      return;
+    }
+
+    try {
+      setInvitations(await invitationsRepo.listPending(organizationId));
+    } catch {
+      toast.error('Failed to load invitations');
+    }
+  }, [organizationId, isOrganizationAdmin, invitationsRepo]);
+
+  useEffect(() => {
+    setInviteLink(null);
+    loadMembers();
+    loadInvitations();
+  }, [loadMembers, loadInvitations]);
+
+  if (loading) {
+    return <LoadingScreen />;
+  }
+
+  if (!current || !organizationId) {
+    return <Navigate to="/organizations/new" replace />;
+  }
+
+  // Admins can't touch owners; the database enforces the same rule
+  const canManage = (member: OrganizationMember) =>
+    isOrganizationAdmin && (isOwner || member.role !== 'owner');
+
+  const onInvite = async (data: InviteForm) => {
+    const { data: token, error } = await supabase.rpc('invite_organization_member', {
+      p_organization_id: organizationId,
+      p_email: data.email,
+      p_role: data.role,
+    });
+
+    if (error) {
+      toast.error(error.code === '23505' ? `${data.email} is already a member` : 'Failed to invite member');
+      return;
+    }
+
+    reset();
+
+    // The same link goes out whether or not the address has an account; people
+    // who already have one can also accept from their dashboard
+    setInviteLink(`${window.location.origin}/register?invite=${encodeURIComponent(token)}`);
+    setCopied(false);
+    toast.success(`Invitation created for ${data.email}`);
+    await loadInvitations();
+  };
+
+  const handleCopy = async () => {
+    if (!inviteLink) return;
+
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+      setCopied(true);
+    } catch {
+      toast.error('Copy the link manually');
+    }
+  };
+
+  const handleRoleChange = async (member: OrganizationMember, role: OrgRole) => {
+    const { error } = await supabase.rpc('set_organization_member_role', {
+      p_organization_id: organizationId,
+      p_user_id: member.user_id,
+      p_role: role,
+    });
+
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+
+    toast.success(`${member.email} is now ${roleLabels[role].toLowerCase()}`);
+    await loadMembers();
+
+    if (member.user_id === user?.id) {
+      await refreshOrganizations();
+    }
+  };
+
+  const handleRemove = async (member: OrganizationMember) => {
+    const leaving = member.user_id === user?.id;
+
+    if (!window.confirm(leaving ? `Leave ${current.organization.name}?` : `Remove ${member.email} from ${current.organization.name}?`)) {
+      return;
+    }
+
+    const { error } = await supabase.rpc('remove_organization_member', {
+      p_organization_id: organizationId,
+      p_user_id: member.user_id,
+    });
+
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+
+    if (leaving) {
+      toast.success(`You left ${current.organization.name}`);
+      await refreshOrganizations();
+      navigate('/');
+      return;
+    }
+
+    toast.success(`${member.email} removed`);
+    await loadMembers();
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    const { error } = await supabase.rpc('revoke_invitation', { p_invitation_id: invitation.id });
+
+    if (error) {
+      toast.error('Failed to revoke invitation');
+      return;
+    }
+
+    toast.success(`Invitation for ${invitation.email} revoked`);
+    await loadInvitations();
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+      {isOrganizationAdmin && (
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-2xl font-semibold text-gray-900 mb-6">Invite a member</h2>
+
+          <form onSubmit={handleSubmit(onInvite)} className="grid grid-cols-1 gap-4 sm:grid-cols-3 sm:items-end">
+            <div className="sm:col-span-2">
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                Email address
+              </label>
+              <div className="mt-1">
+                <input
+                  {...register('email')}
+                  type="email"
+                  className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                />
+                {errors.email && (
+                  <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="role" className="block text-sm font-medium text-gray-700">
+                Role
+              </label>
+              <select
+                {...register('role')}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              >
+                <option value="member">Member</option>
+                <option value="admin">Admin</option>
+                {isOwner && <option value="owner">Owner</option>}
+              </select>
+            </div>
+
+            <div className="sm:col-span-3">
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+              >
+                <UserPlus className="h-4 w-4 mr-2" />
+                {isSubmitting ? 'Inviting...' : 'Invite'}
+              </button>
+            </div>
+          </form>
+
+          {inviteLink && (
+            <div className="mt-6 rounded-md bg-green-50 p-4">
+              <p className="text-sm font-medium text-green-800">
+                Send this link to the invitee. It will not be shown again. If they already have an account, they can
+                accept the invitation from their dashboard instead.
+              </p>
+              <div className="mt-2 flex items-center space-x-3">
+                <code className="flex-1 truncate rounded bg-white px-2 py-1 text-sm text-gray-700">{inviteLink}</code>
+                <button
+                  type="button"
+                  onClick={handleCopy}
+                  className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  {copied ? <Check className="h-4 w-4 mr-2" /> : <Copy className="h-4 w-4 mr-2" />}
+                  {copied ? 'Copied' : 'Copy'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {invitations.length > 0 && (
+            <div className="mt-6">
+              <h3 className="text-sm font-medium text-gray-900">Pending invitations</h3>
+              <ul className="mt-2 divide-y divide-gray-200 border-t border-b border-gray-200">
+                {invitations.map((invitation) => (
+                  <li key={invitation.id} className="flex items-center justify-between py-3 text-sm">
+                    <div>
+                      <span className="text-gray-900">{invitation.email}</span>
+                      <span className="ml-2 text-gray-500">
+                        {invitation.organization_role && roleLabels[invitation.organization_role]}
+                        {' '}&middot; expires {new Date(invitation.expires_at).toLocaleDateString()}
+                      </span>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleRevoke(invitation)}
+                      className="font-medium text-red-600 hover:text-red-500"
+                    >
+                      Revoke
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-2xl font-semibold text-gray-900 mb-6">{current.organization.name}</h2>
+
+        <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 sm:rounded-lg">
+          <table className="min-w-full divide-y divide-gray-300">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900">Member</th>
+                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Role</th>
+                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Joined</th>
+                <th className="px-3 py-3.5" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {members.map((member) => {
+                const isSelf = member.user_id === user?.id;
+
+                return (
+                  <tr key={member.user_id}>
+                    <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm">
+                      <div className="flex items-center">
+                        <Avatar profile={member} className="h-8 w-8 text-xs mr-3" />
+                        <div>
+                          {isOrganizationAdmin && !isSelf ? (
+                            <Link
+                              to={`/organization/members/${member.user_id}`}
+                              className="font-medium text-indigo-600 hover:text-indigo-500"
+                            >
+                              {member.first_name} {member.last_name}
+                            </Link>
+                          ) : (
+                            <span className="font-medium text-gray-900">
+                              {member.first_name} {member.last_name}
+                              {isSelf && <span className="ml-1 text-gray-500">(you)</span>}
+                            </span>
+                          )}
+                          <div className="text-gray-500">{member.email}</div>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                      {canManage(member) ? (
+                        <select
+                          aria-label={`Role for ${member.email}`}
+                          value={member.role}
+                          onChange={(event) => handleRoleChange(member, event.target.value as OrgRole)}
+                          className="block px-2 py-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                        >
+                          <option value="member">Member</option>
+                          <option value="admin">Admin</option>
+                          {isOwner && <option value="owner">Owner</option>}
+                        </select>
+                      ) : (
+                        roleLabels[member.role]
+                      )}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                      {new Date(member.joined_at).toLocaleDateString()}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-4 text-right text-sm">
+                      {(isSelf || canManage(member)) && (
+                        <button
+                          type="button"
+                          onClick={() => handleRemove(member)}
+                          className="font-medium text-red-600 hover:text-red-500"
+                        >
+                          {isSelf ? 'Leave' : 'Remove'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useOrganizations } from '../hooks/useOrganizations';
+import Avatar from '../components/Avatar';
+import LoadingScreen from '../components/LoadingScreen';
+import LoginHistoryTable from '../components/LoginHistoryTable';
+import ProfileChangesTable from '../components/ProfileChangesTable';
+import Forbidden from './Forbidden';
+import toast from 'react-hot-toast';
+import type { OrganizationMember as Member } from '../lib/types';
+
+// A member's activity as their organization's owners and admins see it. RLS
+// only returns rows for users who share an organization with the viewer.
+export default function OrganizationMember() {
+  const { userId } = useParams<{ userId: string }>();
+  const { current, isOrganizationAdmin, loading } = useOrganizations();
+  const [member, setMember] = useState<Member | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  const organizationId = current?.organization.id;
+
+  useEffect(() => {
+    if (!organizationId || !isOrganizationAdmin) return;
+
+    let cancelled = false;
+    setLoaded(false);
+
+    supabase
+      .rpc('list_organization_members', { p_organization_id: organizationId })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        setLoaded(true);
+
+        if (error) {
+          toast.error('Failed to load member');
+          return;
+        }
+
+        setMember(data.find((row) => row.user_id === userId) ?? null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [organizationId, isOrganizationAdmin, userId]);
+
+  if (loading || (isOrganizationAdmin && !loaded)) {
+    return <LoadingScreen />;
+  }
+
+  if (!isOrganizationAdmin) {
+    return <Forbidden reason="permission" />;
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+      <Link to="/organization" className="inline-flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-500">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Back to {current?.organization.name}
+      </Link>
+
+      {member ? (
+        <>
+          <div className="bg-white shadow rounded-lg p-6">
+            <div className="flex items-center">
+              <Avatar profile={member} className="h-12 w-12 text-base mr-4" />
+              <div>
+                <h2 className="text-2xl font-semibold text-gray-900">
+                  {member.first_name} {member.last_name}
+                </h2>
+                <p className="text-sm text-gray-500">{member.email}</p>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white shadow rounded-lg p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Profile Change History</h3>
+            <ProfileChangesTable userId={member.user_id} />
+          </div>
+
+          <div className="bg-white shadow rounded-lg p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Login History</h3>
+            <LoginHistoryTable userId={member.user_id} />
+          </div>
+        </>
+      ) : (
+        <div className="bg-white shadow rounded-lg p-6">
+          <p className="text-sm text-gray-500">This user is not a member of {current?.organization.name}.</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,55 +1,154 @@
-import React from 'react';
-import { useForm } from 'react-hook-form';
+import React, { useEffect, useState } from 'react';
+import { Controller, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { MailCheck, MailX } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { phoneNumberSchema } from '../lib/validation';
+import { passwordSchema } from '../lib/password';
+import ResendConfirmationButton from '../components/ResendConfirmationButton';
+import PhoneInput from '../components/PhoneInput';
+import PasswordStrengthMeter from '../components/PasswordStrengthMeter';
 import toast from 'react-hot-toast';
 
 const registerSchema = z.object({
   firstName: z.string().min(2, 'First name must be at least 2 characters'),
   lastName: z.string().min(2, 'Last name must be at least 2 characters'),
   email: z.string().email('Invalid email address'),
-  password: z.string()
-    .min(8, 'Password must be at least 8 characters')
-    .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-    .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-    .regex(/[0-9]/, 'Password must contain at least one number')
-    .regex(/[^A-Za-z0-9]/, 'Password must contain at least one special character'),
-  phoneNumber: z.string().optional(),
+  password: passwordSchema,
+  phoneNumber: phoneNumberSchema,
 });
 
 type RegisterForm = z.infer<typeof registerSchema>;
 
 export default function Register() {
   const navigate = useNavigate();
-  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<RegisterForm>({
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite');
+  const { register, handleSubmit, control, setValue, watch, formState: { errors, isSubmitting } } = useForm<RegisterForm>({
     resolver: zodResolver(registerSchema),
   });
+  const [pendingEmail, setPendingEmail] = useState<string | null>(null);
+  const [invitedEmail, setInvitedEmail] = useState<string | null>(null);
+  const [access, setAccess] = useState<'checking' | 'open' | 'invited' | 'invite_required' | 'invite_invalid'>('checking');
+
+  // The server enforces invitations; this only decides what to show
+  useEffect(() => {
+    let cancelled = false;
+
+    const check = async () => {
+      if (inviteToken) {
+        const { data, error } = await supabase.rpc('get_invitation', { p_token: inviteToken });
+        const invitation = data?.[0];
+        if (cancelled) return;
+
+        if (error || !invitation) {
+          setAccess('invite_invalid');
+          return;
+        }
+
+        setInvitedEmail(invitation.email);
+        setValue('email', invitation.email);
+        setAccess('invited');
+        return;
+      }
+
+      const { data: inviteOnly } = await supabase.rpc('signups_require_invitation');
+      if (cancelled) return;
+      setAccess(inviteOnly ? 'invite_required' : 'open');
+    };
+
+    check();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [inviteToken, setValue]);
 
   const onSubmit = async (data: RegisterForm) => {
     try {
-      const { error } = await supabase.auth.signUp({
+      const { data: signUp, error } = await supabase.auth.signUp({
         email: data.email,
         password: data.password,
         options: {
+          emailRedirectTo: `${window.location.origin}/auth/callback`,
           data: {
             first_name: data.firstName,
             last_name: data.lastName,
-            phone_number: data.phoneNumber,
+            phone_number: data.phoneNumber || undefined,
+            invite_token: inviteToken ?? undefined,
           },
         },
       });
 
       if (error) throw error;
 
-      toast.success('Registration successful! Please sign in.');
-      navigate('/login');
+      // Without email confirmation the new account is signed in straight away
+      if (signUp.session) {
+        toast.success('Registration successful!');
+        navigate('/');
+        return;
+      }
+
+      setPendingEmail(data.email);
     } catch (error) {
       toast.error('Failed to register. Please try again.');
     }
   };
 
+  if (pendingEmail) {
+    return (
+      <div className="space-y-6 text-center">
+        <MailCheck className="mx-auto h-12 w-12 text-indigo-600" />
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Check your inbox</h3>
+          <p className="mt-2 text-sm text-gray-600">
+            We sent a confirmation link to <span className="font-medium">{pendingEmail}</span>.
+            Follow it to activate your account and sign in.
+          </p>
+        </div>
+        <ResendConfirmationButton email={pendingEmail} sentJustNow />
+        <div className="text-sm">
+          <Link to="/login" className="font-medium text-indigo-600 hover:text-indigo-500">
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (access === 'checking') {
+    return (
+      <p className="text-sm text-center text-gray-500">
+        {inviteToken ? 'Checking your invitation...' : 'Loading...'}
+      </p>
+    );
+  }
+
+  if (access === 'invite_required' || access === 'invite_invalid') {
+    return (
+      <div className="space-y-6 text-center">
+        <MailX className="mx-auto h-12 w-12 text-gray-400" />
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">
+            {access === 'invite_invalid' ? 'This invitation is no longer valid' : 'Registration is by invitation only'}
+          </h3>
+          <p className="mt-2 text-sm text-gray-600">
+            {access === 'invite_invalid'
+              ? 'The link may have expired, been revoked or already been used. Ask an administrator for a new invitation.'
+              : 'Ask an administrator to send you an invitation link.'}
+          </p>
+        </div>
+        <div className="text-sm">
+          <Link to="/login" className="font-medium text-indigo-600 hover:text-indigo-500">
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
       <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
@@ -94,8 +193,12 @@ export default function Register() {
           <input
             {...register('email')}
             type="email"
-            className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            readOnly={invitedEmail !== null}
+            className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm read-only:bg-gray-50 read-only:text-gray-500"
           />
+          {invitedEmail && (
+            <p className="mt-1 text-xs text-gray-500">Your invitation is for this address.</p>
+          )}
           {errors.email && (
             <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
           )}
@@ -107,10 +210,12 @@ export default function Register() {
           Phone number (optional)
         </label>
         <div className="mt-1">
-          <input
-            {...register('phoneNumber')}
-            type="tel"
-            className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          <Controller
+            name="phoneNumber"
+            control={control}
+            render={({ field }) => (
+              <PhoneInput id="phoneNumber" value={field.value} onChange={field.onChange} onBlur={field.onBlur} />
+            )}
           />
           {errors.phoneNumber && (
             <p className="mt-1 text-sm text-red-600">{errors.phoneNumber.message}</p>
@@ -126,8 +231,10 @@ export default function Register() {
           <input
             {...register('password')}
             type="password"
+            autoComplete="new-password"
             className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
           />
+          <PasswordStrengthMeter password={watch('password')} />
           {errors.password && (
             <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
           )}
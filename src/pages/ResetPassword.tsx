@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Link, useNavigate } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { passwordSchema } from '../lib/password';
+import { decodeAccessToken } from '../lib/jwt';
+import { NEW_PASSWORD_ERRORS, updateCredentials } from '../lib/credentials';
+import PasswordStrengthMeter from '../components/PasswordStrengthMeter';
+import toast from 'react-hot-toast';
+import type { Session } from '@supabase/supabase-js';
+
+const resetPasswordSchema = z.object({
+  password: passwordSchema,
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword'],
+});
+
+type ResetPasswordForm = z.infer<typeof resetPasswordSchema>;
+
+function isRecoverySession(session: Session | null) {
+  if (!session) return false;
+  const claims = decodeAccessToken(session.access_token);
+  return claims?.amr?.some((entry) => entry.method === 'recovery') ?? false;
+}
+
+export default function ResetPassword() {
+  const navigate = useNavigate();
+  const [status, setStatus] = useState<'checking' | 'ready' | 'invalid'>('checking');
+  const { register, handleSubmit, setError, watch, formState: { errors, isSubmitting } } = useForm<ResetPasswordForm>({
+    resolver: zodResolver(resetPasswordSchema),
+  });
+
+  useEffect(() => {
+    // The link may already have been exchanged for a session before this page
+    // subscribed, so check the current session as well as listening for the event
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setStatus((current) => {
+        if (current === 'ready') return current;
+        return isRecoverySession(session) ? 'ready' : 'invalid';
+      });
+    });
+
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'PASSWORD_RECOVERY' || isRecoverySession(session)) {
+        setStatus('ready');
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const onSubmit = async (data: ResetPasswordForm) => {
+    // The edge function accepts the reset link in place of the current
+    // password and records the reset
+    const { error } = await updateCredentials({ password: data.password });
+
+    if (error && NEW_PASSWORD_ERRORS.includes(error.code)) {
+      setError('password', { message: error.message });
+      return;
+    }
+
+    if (error) {
+      toast.error('Failed to reset password. Please request a new link.');
+      return;
+    }
+
+    // Anyone holding an old session loses it along with the old password
+    await supabase.auth.signOut({ scope: 'others' });
+
+    toast.success('Password updated. You have been signed out everywhere else.');
+    navigate('/');
+  };
+
+  if (status === 'checking') {
+    return <p className="text-sm text-center text-gray-500">Checking your reset link...</p>;
+  }
+
+  if (status === 'invalid') {
+    return (
+      <div className="space-y-6 text-center">
+        <p className="text-sm text-gray-600">This password reset link is invalid or has expired.</p>
+        <Link to="/forgot-password" className="block text-sm font-medium text-indigo-600 hover:text-indigo-500">
+          Request a new link
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      <div>
+        <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+          New password
+        </label>
+        <div className="mt-1">
+          <input
+            {...register('password')}
+            type="password"
+            autoComplete="new-password"
+            className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          />
+          <PasswordStrengthMeter password={watch('password')} />
+          {errors.password && (
+            <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
+          Confirm new password
+        </label>
+        <div className="mt-1">
+          <input
+            {...register('confirmPassword')}
+            type="password"
+            autoComplete="new-password"
+            className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          />
+          {errors.confirmPassword && (
+            <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+        >
+          {isSubmitting ? 'Saving...' : 'Set new password'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -1 +1,16 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL: string;
+  readonly VITE_SUPABASE_ANON_KEY: string;
+  // Comma-separated OAuth providers to offer on the sign-in page
+  readonly VITE_AUTH_PROVIDERS?: string;
+  // Minutes without activity before signing out; 0 turns the timeout off
+  readonly VITE_IDLE_TIMEOUT_MINUTES?: string;
+  // Seconds of warning shown before an idle sign-out
+  readonly VITE_IDLE_WARNING_SECONDS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
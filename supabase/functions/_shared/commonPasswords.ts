@@ -0,0 +1,47 @@
+// A short list of the most common passwords, lowercased. The forms flag them
+// as the user types and the update-credentials edge function refuses them.
+// It is no substitute for a breach check; that function and the auth server
+// do that too. Variants with capitals, trailing digits or symbols and common
+// letter swaps are caught by the normalisation in passwordPolicy.ts, so each
+// base word only needs to be here once.
+export const commonPasswords: ReadonlySet<string> = new Set([
+  '123456', '1234567', '12345678', '123456789', '1234567890', '12345', '1234', '111111',
+  '000000', '121212', '123123', '123321', '654321', '666666', '696969', '777777',
+  '888888', '987654321', '112233', '159753', '147258369', '1q2w3e4r', '1q2w3e4r5t',
+  '1qaz2wsx', 'zaq12wsx', 'qwerty', 'qwertyuiop', 'qwert', 'qwer', 'asdf', 'asdfgh',
+  'asdfghjkl', 'zxcvbn', 'zxcvbnm', 'qazwsx', 'qweasd', 'qweasdzxc', '1qazxsw2',
+  'abcd', 'abcdef', 'abcdefg', 'abcdefgh', 'abc123', 'a1b2c3', 'aaaaaa', 'password',
+  'passw0rd', 'pass', 'passwd', 'passpass', 'letmein', 'welcome', 'welcomeback',
+  'login', 'admin', 'administrator', 'root', 'toor', 'user', 'guest', 'test', 'tester',
+  'changeme', 'default', 'secret', 'private', 'master', 'access', 'trustno', 'iloveyou',
+  'loveyou', 'love', 'lovely', 'loveme', 'lover', 'princess', 'prince', 'sunshine',
+  'shadow', 'monkey', 'dragon', 'football', 'baseball', 'basketball', 'soccer', 'hockey',
+  'golf', 'tennis', 'superman', 'batman', 'spiderman', 'starwars', 'pokemon', 'naruto',
+  'matrix', 'hunter', 'killer', 'ranger', 'tigger', 'charlie', 'michael', 'jennifer',
+  'jordan', 'jessica', 'ashley', 'daniel', 'andrew', 'joshua', 'thomas', 'robert',
+  'william', 'george', 'harley', 'hannah', 'summer', 'winter', 'autumn', 'spring',
+  'freedom', 'whatever', 'nothing', 'computer', 'internet', 'samsung', 'apple', 'google',
+  'facebook', 'linkedin', 'myspace', 'yahoo', 'hotmail', 'gmail', 'microsoft', 'windows',
+  'mustang', 'ferrari', 'porsche', 'corvette', 'mercedes', 'chevy', 'cheese', 'pepper',
+  'chocolate', 'cookie', 'banana', 'orange', 'flower', 'butterfly', 'purple', 'yellow',
+  'silver', 'golden', 'diamond', 'ginger', 'maggie', 'buster', 'bailey', 'buddy',
+  'jesus', 'christ', 'angel', 'angels', 'heaven', 'blessed', 'faith', 'family', 'friends',
+  'forever', 'happy', 'money', 'qwerty123', 'zxcv', 'asdf1234', 'trustme', 'hello',
+  'helloworld', 'fuckyou', 'fuck', 'bitch', 'asshole', 'sexy', 'pussy',
+  'cowboy', 'cowboys', 'eagles', 'yankees', 'lakers', 'arsenal', 'liverpool', 'chelsea',
+  'barcelona', 'realmadrid', 'juventus', 'rangers', 'steelers', 'dallas', 'london',
+  'paris', 'berlin', 'newyork', 'america', 'canada', 'england', 'qwertyu', 'azerty',
+  'qwertz', 'mypassword', 'mypass', 'newpassword', 'oldpassword', 'password1', 'temp',
+  'temporary', 'welcome1', 'letmein1', 'iloveu', 'ihateyou', 'superstar', 'rockstar',
+  'rockyou', 'starlight', 'moonlight', 'midnight', 'blink', 'slipknot', 'metallica',
+  'nirvana', 'zeppelin', 'thunder', 'lightning', 'phoenix', 'falcon', 'eagle', 'tiger',
+  'lion', 'wolf', 'bear', 'snoopy', 'scooby', 'mickey', 'minnie', 'donald', 'garfield',
+  'peanut', 'muffin', 'cupcake', 'sweetie', 'sweetheart', 'honey', 'baby', 'babygirl',
+  'babyboy', 'daddy', 'mommy', 'mother', 'father', 'sister', 'brother', 'monday',
+  'friday', 'sunday', 'january', 'december', 'qwerty1', 'zaq1', 'xsw2', 'aaaa', 'zzzzzz',
+  'pass1234', 'admin123', 'root123', 'user123', 'test123', 'demo', 'sample', 'example',
+  'company', 'office', 'business', 'manager', 'server', 'system', 'network', 'security',
+  'database', 'oracle', 'mysql', 'postgres', 'supabase', 'letmeinnow', 'open', 'opensesame',
+  'sesame', 'abracadabra', 'qwerty12', 'passwort', 'motdepasse', 'contrasena', 'senha',
+  'parola', 'haslo', 'salasana', 'wachtwoord', 'losenord', 'adgangskode',
+]);
@@ -0,0 +1,97 @@
+import { commonPasswords } from './commonPasswords.ts';
+
+// The password policy for registration, reset and change-password, shared by
+// the forms and the update-credentials edge function, which enforces it.
+// Sign-in deliberately doesn't apply it, so tightening the rules never locks
+// anyone out. Plain TypeScript with no imports beyond this folder, so both
+// Vite and Deno can load it.
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+// Roughly what a guessing attack has to cover before it finds the password
+export const MIN_ENTROPY_BITS = 36;
+
+const PASSWORD_RULES: readonly { pattern: RegExp; message: string }[] = [
+  { pattern: /[A-Z]/, message: 'Password must contain at least one uppercase letter' },
+  { pattern: /[a-z]/, message: 'Password must contain at least one lowercase letter' },
+  { pattern: /[0-9]/, message: 'Password must contain at least one number' },
+  { pattern: /[^A-Za-z0-9]/, message: 'Password must contain at least one special character' },
+];
+
+const substitutions: Record<string, string> = {
+  '@': 'a',
+  '4': 'a',
+  '8': 'b',
+  '3': 'e',
+  '1': 'i',
+  '!': 'i',
+  '0': 'o',
+  '$': 's',
+  '5': 's',
+  '7': 't',
+};
+
+// Catches Password1!, P@ssw0rd2024 and 123456 alike
+export function isCommonPassword(password: string) {
+  const lower = password.toLowerCase();
+  if (commonPasswords.has(lower)) return true;
+
+  const base = lower
+    .replace(/^\d+/, '')
+    .replace(/[\d\W_]+$/, '')
+    .replace(/./g, (char) => substitutions[char] ?? char);
+
+  return base.length >= 4 && commonPasswords.has(base);
+}
+
+function poolSize(password: string) {
+  let size = 0;
+  if (/[a-z]/.test(password)) size += 26;
+  if (/[A-Z]/.test(password)) size += 26;
+  if (/\d/.test(password)) size += 10;
+  if (/[^A-Za-z0-9]/.test(password)) size += 33;
+  return size;
+}
+
+// Characters that repeat the previous one or continue a run like abc or 321
+// add little, so they count for half
+function effectiveLength(password: string) {
+  let length = 0;
+
+  for (let i = 0; i < password.length; i++) {
+    const step = i > 0 ? password.charCodeAt(i) - password.charCodeAt(i - 1) : null;
+    length += step !== null && Math.abs(step) <= 1 ? 0.5 : 1;
+  }
+
+  return length;
+}
+
+export function estimateEntropy(password: string) {
+  if (!password) return 0;
+
+  // A listed password is only as strong as its position in the list
+  if (isCommonPassword(password)) return Math.round(Math.log2(commonPasswords.size));
+
+  return Math.round(effectiveLength(password) * Math.log2(poolSize(password)));
+}
+
+// The first rule the password breaks, as a message for the user, or null
+// when it meets the policy
+export function passwordPolicyViolation(password: string): string | null {
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    return `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
+  }
+
+  const rule = PASSWORD_RULES.find(({ pattern }) => !pattern.test(password));
+  if (rule) return rule.message;
+
+  if (isCommonPassword(password)) {
+    return 'This password is too common. Choose one that is harder to guess.';
+  }
+
+  if (estimateEntropy(password) < MIN_ENTROPY_BITS) {
+    return 'This password is too predictable. Make it longer or avoid repeated and sequential characters.';
+  }
+
+  return null;
+}
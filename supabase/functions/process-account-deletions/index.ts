@@ -0,0 +1,67 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+const AVATARS_BUCKET = 'avatars';
+const LIST_PAGE_SIZE = 100;
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// Removes everything in the user's avatar folder. Going through the Storage
+// API deletes the files themselves, not just their rows in storage.objects.
+async function removeAvatars(admin: SupabaseClient, userId: string) {
+  const bucket = admin.storage.from(AVATARS_BUCKET);
+
+  for (;;) {
+    const { data: files, error } = await bucket.list(userId, { limit: LIST_PAGE_SIZE });
+    if (error) throw error;
+    if (!files || files.length === 0) return;
+
+    const { error: removeError } = await bucket.remove(files.map((file) => `${userId}/${file.name}`));
+    if (removeError) throw removeError;
+  }
+}
+
+// Hard deletes accounts whose grace period has ended, with their avatars.
+// Called hourly by pg_cron with the service role key. Each account is handled
+// on its own, so one failure doesn't hold up the rest; failed accounts stay
+// due and are retried on the next run.
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return json({ error: 'Not authorized' }, 401);
+  }
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+  const { data: userIds, error } = await admin.rpc('due_account_deletions');
+  if (error) {
+    console.error('Failed to list due account deletions:', error);
+    return json({ error: 'Failed to list due account deletions' }, 500);
+  }
+
+  let deleted = 0;
+  const failed: string[] = [];
+
+  for (const userId of userIds ?? []) {
+    try {
+      // Avatars go first: once the account is gone nothing would find them
+      await removeAvatars(admin, userId);
+
+      const { data: wasDeleted, error: deleteError } = await admin.rpc('delete_scheduled_account', {
+        p_user_id: userId,
+      });
+      if (deleteError) throw deleteError;
+      if (wasDeleted) deleted++;
+    } catch (deleteError) {
+      console.error(`Failed to delete account ${userId}:`, deleteError);
+      failed.push(userId);
+    }
+  }
+
+  return json({ deleted, failed }, failed.length > 0 ? 500 : 200);
+});
@@ -0,0 +1,59 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createSmsSender } from './sms.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Sends a verification code to the caller's profile phone number
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer /, '');
+  if (!token) {
+    return json({ error: 'Not authenticated' }, 401);
+  }
+
+  const admin = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  const { data: { user }, error: userError } = await admin.auth.getUser(token);
+  if (userError || !user) {
+    return json({ error: 'Not authenticated' }, 401);
+  }
+
+  const { data, error } = await admin.rpc('create_phone_verification', { p_user_id: user.id });
+  if (error) {
+    console.error('Failed to create phone verification:', error);
+    return json({ error: 'Failed to create verification code' }, 500);
+  }
+
+  const verification = data?.[0];
+  if (!verification) {
+    return json({ error: 'A code was sent recently or there is no phone number to verify' }, 429);
+  }
+
+  try {
+    await createSmsSender().send(
+      verification.phone_number,
+      `Your verification code is ${verification.code}. It expires in 10 minutes.`
+    );
+  } catch (sendError) {
+    console.error('Failed to send SMS:', sendError);
+    return json({ error: 'Failed to send verification code' }, 502);
+  }
+
+  return json({ sent: true });
+});
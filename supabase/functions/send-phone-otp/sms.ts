@@ -0,0 +1,70 @@
+export interface SmsSender {
+  send(to: string, body: string): Promise<void>;
+}
+
+// Local development only: the code shows up in the function logs
+const consoleSender: SmsSender = {
+  async send(to, body) {
+    console.log(`[sms] to ${to}: ${body}`);
+  },
+};
+
+function twilioSender(accountSid: string, authToken: string, from: string): SmsSender {
+  return {
+    async send(to, body) {
+      const response = await fetch(
+        `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: new URLSearchParams({ To: to, From: from, Body: body }),
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Twilio responded with ${response.status}`);
+      }
+    },
+  };
+}
+
+function requireEnv(name: string) {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`Missing ${name} for the configured SMS provider`);
+  }
+  return value;
+}
+
+// The local stack serves functions over plain http; deployed projects don't
+function isLocalStack() {
+  return Deno.env.get('SUPABASE_URL')?.startsWith('http://') ?? false;
+}
+
+// SMS_PROVIDER selects the sender. There is no default, so a deployment that
+// forgot to configure one fails instead of writing codes to the logs.
+export function createSmsSender(): SmsSender {
+  const provider = Deno.env.get('SMS_PROVIDER');
+  if (!provider) {
+    throw new Error('No SMS provider configured: set SMS_PROVIDER');
+  }
+
+  switch (provider) {
+    case 'console':
+      if (!isLocalStack()) {
+        throw new Error('The console SMS provider is only available locally');
+      }
+      return consoleSender;
+    case 'twilio':
+      return twilioSender(
+        requireEnv('TWILIO_ACCOUNT_SID'),
+        requireEnv('TWILIO_AUTH_TOKEN'),
+        requireEnv('TWILIO_FROM_NUMBER')
+      );
+    default:
+      throw new Error(`Unknown SMS provider: ${provider}`);
+  }
+}
@@ -0,0 +1,209 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { passwordPolicyViolation } from '../_shared/passwordPolicy.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// A reset link only stands in for the current password while it is fresh
+const RECOVERY_WINDOW_SECONDS = 15 * 60;
+// Accounts without a password confirm with a sign-in this recent instead,
+// as they do to delete their account
+const SIGN_IN_WINDOW_SECONDS = 10 * 60;
+const SIGN_IN_LINK_METHODS = ['otp', 'magiclink'];
+
+interface UpdateCredentialsRequest {
+  currentPassword?: string;
+  password?: string;
+  email?: string;
+  emailRedirectTo?: string;
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function failure(code: string, message: string, status: number) {
+  return json({ error: { code, message } }, status);
+}
+
+// Whether the session authenticated with one of the methods within the last
+// windowSeconds. Only call this once the auth server has accepted the token.
+function authenticatedRecently(token: string, methods: string[], windowSeconds: number) {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const claims = JSON.parse(atob(payload)) as { amr?: { method: string; timestamp: number }[] };
+    const now = Date.now() / 1000;
+
+    return claims.amr?.some((entry) => methods.includes(entry.method) && now - entry.timestamp < windowSeconds) ?? false;
+  } catch {
+    return false;
+  }
+}
+
+// Pwned Passwords range lookup: only the first five characters of the SHA-1
+// hash leave the server, and padding hides how many suffixes came back
+async function isBreachedPassword(password: string) {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(password));
+  const hash = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('').toUpperCase();
+
+  const response = await fetch(`https://api.pwnedpasswords.com/range/${hash.slice(0, 5)}`, {
+    headers: { 'Add-Padding': 'true' },
+  });
+  if (!response.ok) {
+    throw new Error(`Pwned Passwords responded with ${response.status}`);
+  }
+
+  const suffix = hash.slice(5);
+  return (await response.text()).split('\n').some((line) => {
+    const [candidate, count] = line.trim().split(':');
+    return candidate === suffix && Number(count) > 0;
+  });
+}
+
+// Changes the caller's password or email once they have reauthenticated. The
+// database refuses credential changes that didn't come through here, so a
+// stolen session can't make them through the auth API directly.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer /, '');
+  if (!token) {
+    return failure('not_authenticated', 'Not authenticated', 401);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const anonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+  const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { data: { user }, error: userError } = await admin.auth.getUser(token);
+  if (userError || !user) {
+    return failure('not_authenticated', 'Not authenticated', 401);
+  }
+
+  const body = await req.json().catch(() => null) as UpdateCredentialsRequest | null;
+  if (!body || !body.password === !body.email) {
+    return failure('invalid_request', 'Send either a new password or a new email address', 400);
+  }
+
+  // Runs queries as the caller, so auth.uid() and the session are theirs
+  const asUser = createClient(supabaseUrl, anonKey, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+  });
+
+  // A reset link standing in for the current password
+  const viaRecovery = !body.currentPassword && !!body.password
+    && authenticatedRecently(token, ['recovery'], RECOVERY_WINDOW_SECONDS);
+
+  if (body.currentPassword) {
+    const { data: verified, error } = await asUser.rpc('verify_current_password', {
+      p_password: body.currentPassword,
+    });
+
+    // PT429 is the lockout after too many wrong passwords
+    if (error?.code === 'PT429') {
+      return failure('too_many_attempts', error.message, 429);
+    }
+
+    if (error) {
+      console.error('Failed to verify current password:', error);
+      return failure('update_failed', 'Failed to verify your password', 500);
+    }
+
+    if (!verified) {
+      return failure('incorrect_password', 'Incorrect password', 403);
+    }
+  } else if (!viaRecovery) {
+    const { data: hasPassword, error } = await asUser.rpc('has_password');
+    if (error) {
+      console.error('Failed to check for a password:', error);
+      return failure('update_failed', 'Failed to verify your sign-in', 500);
+    }
+
+    if (hasPassword || !authenticatedRecently(token, SIGN_IN_LINK_METHODS, SIGN_IN_WINDOW_SECONDS)) {
+      return failure(
+        'reauthentication_required',
+        hasPassword ? 'Enter your current password' : 'Sign in again to confirm',
+        401
+      );
+    }
+  }
+
+  if (body.password) {
+    const violation = passwordPolicyViolation(body.password);
+    if (violation) {
+      return failure('weak_password', violation, 422);
+    }
+
+    // The auth server's own leaked-password check still applies if this fails
+    const breached = await isBreachedPassword(body.password).catch((error) => {
+      console.error('Failed to check password against breaches:', error);
+      return false;
+    });
+    if (breached) {
+      return failure('password_breached', 'This password has appeared in a data breach. Choose a different one.', 422);
+    }
+
+    const { data: reused, error: historyError } = await admin.rpc('password_in_history', {
+      p_user_id: user.id,
+      p_password: body.password,
+    });
+    if (historyError) {
+      console.error('Failed to check password history:', historyError);
+      return failure('update_failed', 'Failed to change password', 500);
+    }
+    if (reused) {
+      return failure('password_reused', 'You have used this password recently. Choose a different one.', 422);
+    }
+
+    // Written by the database, which only accepts a password set this way,
+    // and logs a reset along with it
+    const { error } = await admin.rpc('set_user_password', {
+      p_user_id: user.id,
+      p_password: body.password,
+      p_reset: viaRecovery,
+    });
+    if (error) {
+      console.error('Failed to set password:', error);
+      return failure('update_failed', 'Failed to change password', 500);
+    }
+
+    return json({ updated: 'password' });
+  }
+
+  // Only good for this address, so the session can't reuse it for another
+  const { error: grantError } = await admin.rpc('grant_credential_change', {
+    p_user_id: user.id,
+    p_email: body.email,
+  });
+  if (grantError) {
+    console.error('Failed to grant email change:', grantError);
+    return failure('update_failed', 'Failed to change email', 500);
+  }
+
+  // Requested as the user, so the auth server sends its confirmation emails
+  // to both addresses instead of changing the email outright
+  const redirect = body.emailRedirectTo ? `?redirect_to=${encodeURIComponent(body.emailRedirectTo)}` : '';
+  const response = await fetch(`${supabaseUrl}/auth/v1/user${redirect}`, {
+    method: 'PUT',
+    headers: {
+      apikey: anonKey,
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ email: body.email }),
+  });
+
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    return failure('update_failed', result.msg ?? result.message ?? 'Failed to change email', 422);
+  }
+
+  return json({ updated: 'email' });
+});
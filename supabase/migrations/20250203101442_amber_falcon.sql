@@ -0,0 +1,148 @@
+/*
+  # Admin role and user administration
+
+  1. New Tables
+    - `public.user_roles`
+      - Server-side role assignments, one row per user and role
+      - Managed from the SQL console or by other admins, never by the user themselves
+
+  2. New Functions
+    - `public.is_admin()` - true when the current user holds the `admin` role
+    - `public.admin_list_users()` - searchable, paginated user list with each
+      user's latest login, for the administration console
+
+  3. Security
+    - Enable RLS on `user_roles`
+    - Users can view their own roles, admins can view and manage all roles
+    - Admins can view all rows in `profiles`, `login_history` and `profile_changes`
+*/
+
+CREATE TYPE public.app_role AS ENUM ('admin');
+
+-- Role assignments
+CREATE TABLE public.user_roles (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  role public.app_role NOT NULL,
+  granted_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  granted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  PRIMARY KEY (user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Runs as definer so policies on user_roles can call it without recursing
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = auth.uid()
+      AND role = 'admin'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Policies for user roles
+CREATE POLICY "Users can view own roles"
+  ON public.user_roles
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all roles"
+  ON public.user_roles
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "Admins can grant roles"
+  ON public.user_roles
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admins can revoke roles"
+  ON public.user_roles
+  FOR DELETE
+  TO authenticated
+  USING (public.is_admin());
+
+-- Admin read access to user data
+CREATE POLICY "Admins can view all profiles"
+  ON public.profiles
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "Admins can view all login history"
+  ON public.login_history
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "Admins can view all profile changes"
+  ON public.profile_changes
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+-- User list for the administration console
+CREATE OR REPLACE FUNCTION public.admin_list_users(
+  p_search TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  email TEXT,
+  first_name TEXT,
+  last_name TEXT,
+  phone_number TEXT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  last_login_at TIMESTAMPTZ,
+  last_login_ip TEXT,
+  last_login_device TEXT,
+  total_count BIGINT
+) AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can list users' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    u.email::TEXT,
+    p.first_name,
+    p.last_name,
+    p.phone_number,
+    p.created_at,
+    p.updated_at,
+    l.login_timestamp,
+    l.ip_address,
+    l.device_info,
+    count(*) OVER ()
+  FROM public.profiles p
+  JOIN auth.users u ON u.id = p.id
+  LEFT JOIN LATERAL (
+    SELECT lh.login_timestamp, lh.ip_address, lh.device_info
+    FROM public.login_history lh
+    WHERE lh.user_id = p.id
+      AND lh.success
+    ORDER BY lh.login_timestamp DESC
+    LIMIT 1
+  ) l ON true
+  WHERE p_search IS NULL
+    OR p_search = ''
+    OR u.email ILIKE '%' || p_search || '%'
+    OR p.first_name ILIKE '%' || p_search || '%'
+    OR p.last_name ILIKE '%' || p_search || '%'
+    OR (p.first_name || ' ' || p.last_name) ILIKE '%' || p_search || '%'
+  ORDER BY p.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.admin_list_users(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.admin_list_users(TEXT, INTEGER, INTEGER) TO authenticated;
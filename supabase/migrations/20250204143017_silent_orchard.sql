@@ -0,0 +1,119 @@
+/*
+  # Server-side login history recording
+
+  1. New Tables
+    - `public.login_attempts`
+      - Failed sign-in attempts for emails that don't belong to any account
+      - Kept apart from `login_history`, whose `user_id` must reference a real user
+
+  2. Changes
+    - Add `session_id` to `login_history` so each successful login can be tied
+      to the auth session it created
+    - Successful logins are recorded by a trigger on `auth.sessions`, which
+      carries the real client IP and user agent
+    - Failed logins are recorded through the `record_failed_login` RPC, which
+      reads the IP and user agent from the request headers rather than trusting
+      values sent by the client
+
+  3. Security
+    - Enable RLS on `login_attempts`; only admins can read it
+    - Remove the client INSERT policy on `login_history`, which allowed anyone
+      to forge rows
+*/
+
+ALTER TABLE public.login_history
+  ADD COLUMN session_id UUID;
+
+CREATE INDEX login_history_user_id_login_timestamp_idx
+  ON public.login_history (user_id, login_timestamp DESC);
+
+-- Failed attempts against unknown emails
+CREATE TABLE public.login_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL,
+  attempted_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  ip_address TEXT,
+  device_info TEXT,
+  failure_reason TEXT
+);
+
+CREATE INDEX login_attempts_email_attempted_at_idx
+  ON public.login_attempts (email, attempted_at DESC);
+
+ALTER TABLE public.login_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view login attempts"
+  ON public.login_attempts
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+-- Clients may no longer write login history directly
+DROP POLICY "Users can insert own login history" ON public.login_history;
+
+-- Request metadata forwarded by the API gateway
+CREATE OR REPLACE FUNCTION public.request_ip()
+RETURNS TEXT AS $$
+  SELECT NULLIF(
+    trim(split_part(
+      COALESCE(
+        current_setting('request.headers', true)::json->>'x-forwarded-for',
+        current_setting('request.headers', true)::json->>'x-real-ip',
+        ''
+      ),
+      ',',
+      1
+    )),
+    ''
+  );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.request_user_agent()
+RETURNS TEXT AS $$
+  SELECT NULLIF(current_setting('request.headers', true)::json->>'user-agent', '');
+$$ LANGUAGE sql STABLE;
+
+-- Record successful logins as auth creates their sessions
+CREATE OR REPLACE FUNCTION public.handle_new_session()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.login_history (user_id, session_id, ip_address, device_info, success)
+  VALUES (NEW.user_id, NEW.id, host(NEW.ip), NEW.user_agent, true);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_session_created
+  AFTER INSERT ON auth.sessions
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_session();
+
+-- Record failed logins reported by the sign-in form
+CREATE OR REPLACE FUNCTION public.record_failed_login(
+  p_email TEXT,
+  p_failure_reason TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID;
+  v_email TEXT := lower(trim(p_email));
+  v_reason TEXT := left(p_failure_reason, 200);
+BEGIN
+  IF v_email IS NULL OR v_email = '' THEN
+    RETURN;
+  END IF;
+
+  SELECT id INTO v_user_id
+  FROM auth.users
+  WHERE lower(email) = v_email;
+
+  IF v_user_id IS NULL THEN
+    INSERT INTO public.login_attempts (email, ip_address, device_info, failure_reason)
+    VALUES (left(v_email, 320), public.request_ip(), public.request_user_agent(), v_reason);
+  ELSE
+    INSERT INTO public.login_history (user_id, ip_address, device_info, success, failure_reason)
+    VALUES (v_user_id, public.request_ip(), public.request_user_agent(), false, v_reason);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.record_failed_login(TEXT, TEXT) TO anon, authenticated;
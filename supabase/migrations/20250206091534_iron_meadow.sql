@@ -0,0 +1,360 @@
+/*
+  # Brute-force protection and temporary account lockout
+
+  1. New Tables
+    - `public.security_settings`
+      - Single row of tunable security settings
+      - Failed-attempt thresholds per account and per IP, lockout duration and
+        the backoff applied to repeated lockouts
+    - `public.account_lockouts`
+      - One row per lockout, keyed by user (account lockouts) or by IP address
+        (IP lockouts, `user_id` is null)
+      - Admins can end a lockout early by setting `unlocked_at`
+
+  2. Changes
+    - `record_failed_login` now counts recent failures per account and per IP,
+      locks once a threshold is reached and returns the active lockout expiry
+    - Lockouts are written to `login_history` with failure reason `account_locked`
+    - `admin_list_users` returns each user's active lockout
+    - New `get_login_lockout` RPC lets the sign-in form check a lockout up front
+    - New `admin_unlock_account` RPC for admins
+
+  3. Security
+    - Enable RLS on both tables; only admins can read them or change settings
+    - `hook_password_verification_attempt` rejects password sign-ins for locked
+      accounts inside the auth server. Enable it under
+      Authentication > Hooks > Password Verification Attempt.
+*/
+
+-- Tunable settings, always exactly one row
+CREATE TABLE public.security_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  max_failed_attempts INTEGER DEFAULT 5 NOT NULL CHECK (max_failed_attempts > 0),
+  max_failed_attempts_per_ip INTEGER DEFAULT 20 NOT NULL CHECK (max_failed_attempts_per_ip > 0),
+  failed_attempt_window INTERVAL DEFAULT '15 minutes' NOT NULL,
+  lockout_duration INTERVAL DEFAULT '15 minutes' NOT NULL,
+  lockout_backoff_multiplier NUMERIC DEFAULT 2 NOT NULL CHECK (lockout_backoff_multiplier >= 1),
+  lockout_backoff_window INTERVAL DEFAULT '24 hours' NOT NULL,
+  max_lockout_duration INTERVAL DEFAULT '24 hours' NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+INSERT INTO public.security_settings DEFAULT VALUES;
+
+-- Lockouts by account or by IP
+CREATE TABLE public.account_lockouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  ip_address TEXT,
+  locked_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  locked_until TIMESTAMPTZ NOT NULL,
+  unlocked_at TIMESTAMPTZ,
+  unlocked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  CHECK (user_id IS NOT NULL OR ip_address IS NOT NULL)
+);
+
+CREATE INDEX account_lockouts_user_id_idx ON public.account_lockouts (user_id, locked_until DESC);
+CREATE INDEX account_lockouts_ip_address_idx ON public.account_lockouts (ip_address, locked_until DESC);
+CREATE INDEX login_history_ip_address_idx ON public.login_history (ip_address, login_timestamp DESC);
+CREATE INDEX login_attempts_ip_address_idx ON public.login_attempts (ip_address, attempted_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.security_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.account_lockouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view security settings"
+  ON public.security_settings
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "Admins can update security settings"
+  ON public.security_settings
+  FOR UPDATE
+  TO authenticated
+  USING (public.is_admin());
+
+CREATE POLICY "Admins can view lockouts"
+  ON public.account_lockouts
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+-- Latest active lockout for an account or an IP address
+CREATE OR REPLACE FUNCTION public.active_lockout_until(p_user_id UUID, p_ip TEXT)
+RETURNS TIMESTAMPTZ AS $$
+  SELECT max(locked_until)
+  FROM public.account_lockouts
+  WHERE unlocked_at IS NULL
+    AND locked_until > now()
+    AND (
+      user_id = p_user_id
+      OR (user_id IS NULL AND ip_address = p_ip)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Lock an account (or an IP when p_user_id is null), growing the duration
+-- with each lockout inside the backoff window
+CREATE OR REPLACE FUNCTION public.create_lockout(p_user_id UUID, p_ip TEXT)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_settings public.security_settings;
+  v_previous INTEGER;
+  v_locked_until TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO v_settings FROM public.security_settings;
+
+  SELECT count(*) INTO v_previous
+  FROM public.account_lockouts
+  WHERE locked_at > now() - v_settings.lockout_backoff_window
+    AND (
+      (p_user_id IS NOT NULL AND user_id = p_user_id)
+      OR (p_user_id IS NULL AND user_id IS NULL AND ip_address = p_ip)
+    );
+
+  v_locked_until := now() + least(
+    v_settings.lockout_duration * power(v_settings.lockout_backoff_multiplier, v_previous)::DOUBLE PRECISION,
+    v_settings.max_lockout_duration
+  );
+
+  INSERT INTO public.account_lockouts (user_id, ip_address, locked_until)
+  VALUES (p_user_id, p_ip, v_locked_until);
+
+  RETURN v_locked_until;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.active_lockout_until(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.create_lockout(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Record a failed login and apply lockouts; returns the active lockout expiry
+DROP FUNCTION public.record_failed_login(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.record_failed_login(
+  p_email TEXT,
+  p_failure_reason TEXT DEFAULT NULL
+)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_settings public.security_settings;
+  v_user_id UUID;
+  v_email TEXT := lower(trim(p_email));
+  v_reason TEXT := left(p_failure_reason, 200);
+  v_ip TEXT := public.request_ip();
+  v_user_agent TEXT := public.request_user_agent();
+  v_locked_until TIMESTAMPTZ;
+  v_since TIMESTAMPTZ;
+  v_failures INTEGER;
+BEGIN
+  IF v_email IS NULL OR v_email = '' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_settings FROM public.security_settings;
+
+  SELECT id INTO v_user_id
+  FROM auth.users
+  WHERE lower(email) = v_email;
+
+  -- Attempts made during a lockout are logged but never extend it
+  v_locked_until := public.active_lockout_until(v_user_id, v_ip);
+  IF v_locked_until IS NOT NULL THEN
+    v_reason := 'account_locked';
+  END IF;
+
+  IF v_user_id IS NULL THEN
+    INSERT INTO public.login_attempts (email, ip_address, device_info, failure_reason)
+    VALUES (left(v_email, 320), v_ip, v_user_agent, v_reason);
+  ELSE
+    INSERT INTO public.login_history (user_id, ip_address, device_info, success, failure_reason)
+    VALUES (v_user_id, v_ip, v_user_agent, false, v_reason);
+  END IF;
+
+  IF v_locked_until IS NOT NULL THEN
+    RETURN v_locked_until;
+  END IF;
+
+  -- Per-account threshold, counted since the last success or lockout
+  IF v_user_id IS NOT NULL THEN
+    v_since := greatest(
+      now() - v_settings.failed_attempt_window,
+      (SELECT max(login_timestamp) FROM public.login_history WHERE user_id = v_user_id AND success),
+      (SELECT max(COALESCE(unlocked_at, locked_until)) FROM public.account_lockouts WHERE user_id = v_user_id)
+    );
+
+    SELECT count(*) INTO v_failures
+    FROM public.login_history
+    WHERE user_id = v_user_id
+      AND NOT success
+      AND login_timestamp > v_since
+      AND failure_reason IS DISTINCT FROM 'account_locked';
+
+    IF v_failures >= v_settings.max_failed_attempts THEN
+      v_locked_until := public.create_lockout(v_user_id, NULL);
+
+      INSERT INTO public.login_history (user_id, ip_address, device_info, success, failure_reason)
+      VALUES (v_user_id, v_ip, v_user_agent, false, 'account_locked');
+
+      RETURN v_locked_until;
+    END IF;
+  END IF;
+
+  -- Per-IP threshold, across known and unknown emails
+  IF v_ip IS NOT NULL THEN
+    v_since := greatest(
+      now() - v_settings.failed_attempt_window,
+      (SELECT max(COALESCE(unlocked_at, locked_until)) FROM public.account_lockouts WHERE user_id IS NULL AND ip_address = v_ip)
+    );
+
+    SELECT
+      (SELECT count(*) FROM public.login_history
+        WHERE ip_address = v_ip
+          AND NOT success
+          AND login_timestamp > v_since
+          AND failure_reason IS DISTINCT FROM 'account_locked')
+      + (SELECT count(*) FROM public.login_attempts
+        WHERE ip_address = v_ip
+          AND attempted_at > v_since
+          AND failure_reason IS DISTINCT FROM 'account_locked')
+    INTO v_failures;
+
+    IF v_failures >= v_settings.max_failed_attempts_per_ip THEN
+      RETURN public.create_lockout(NULL, v_ip);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.record_failed_login(TEXT, TEXT) TO anon, authenticated;
+
+-- Lockout check for the sign-in form
+CREATE OR REPLACE FUNCTION public.get_login_lockout(p_email TEXT)
+RETURNS TIMESTAMPTZ AS $$
+  SELECT public.active_lockout_until(
+    (SELECT id FROM auth.users WHERE lower(email) = lower(trim(p_email))),
+    public.request_ip()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_login_lockout(TEXT) TO anon, authenticated;
+
+-- Early unlock for admins
+CREATE OR REPLACE FUNCTION public.admin_unlock_account(p_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can unlock accounts' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.account_lockouts
+  SET unlocked_at = now(),
+      unlocked_by = auth.uid()
+  WHERE user_id = p_user_id
+    AND unlocked_at IS NULL
+    AND locked_until > now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.admin_unlock_account(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.admin_unlock_account(UUID) TO authenticated;
+
+-- Auth hook: reject password sign-ins while the account is locked
+CREATE OR REPLACE FUNCTION public.hook_password_verification_attempt(event JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_locked_until TIMESTAMPTZ;
+BEGIN
+  SELECT max(locked_until) INTO v_locked_until
+  FROM public.account_lockouts
+  WHERE user_id = (event->>'user_id')::UUID
+    AND unlocked_at IS NULL
+    AND locked_until > now();
+
+  IF v_locked_until IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'decision', 'reject',
+      'message', 'Account locked until ' || to_char(v_locked_until AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI') || ' UTC',
+      'should_logout_user', false
+    );
+  END IF;
+
+  RETURN jsonb_build_object('decision', 'continue');
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.hook_password_verification_attempt(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hook_password_verification_attempt(JSONB) TO supabase_auth_admin;
+
+-- Include active lockouts in the admin user list
+DROP FUNCTION public.admin_list_users(TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.admin_list_users(
+  p_search TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  email TEXT,
+  first_name TEXT,
+  last_name TEXT,
+  phone_number TEXT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  last_login_at TIMESTAMPTZ,
+  last_login_ip TEXT,
+  last_login_device TEXT,
+  locked_until TIMESTAMPTZ,
+  total_count BIGINT
+) AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can list users' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    u.email::TEXT,
+    p.first_name,
+    p.last_name,
+    p.phone_number,
+    p.created_at,
+    p.updated_at,
+    l.login_timestamp,
+    l.ip_address,
+    l.device_info,
+    (
+      SELECT max(al.locked_until)
+      FROM public.account_lockouts al
+      WHERE al.user_id = p.id
+        AND al.unlocked_at IS NULL
+        AND al.locked_until > now()
+    ),
+    count(*) OVER ()
+  FROM public.profiles p
+  JOIN auth.users u ON u.id = p.id
+  LEFT JOIN LATERAL (
+    SELECT lh.login_timestamp, lh.ip_address, lh.device_info
+    FROM public.login_history lh
+    WHERE lh.user_id = p.id
+      AND lh.success
+    ORDER BY lh.login_timestamp DESC
+    LIMIT 1
+  ) l ON true
+  WHERE p_search IS NULL
+    OR p_search = ''
+    OR u.email ILIKE '%' || p_search || '%'
+    OR p.first_name ILIKE '%' || p_search || '%'
+    OR p.last_name ILIKE '%' || p_search || '%'
+    OR (p.first_name || ' ' || p.last_name) ILIKE '%' || p_search || '%'
+  ORDER BY p.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.admin_list_users(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.admin_list_users(TEXT, INTEGER, INTEGER) TO authenticated;
@@ -0,0 +1,227 @@
+/*
+  # TOTP multi-factor authentication with recovery codes
+
+  1. New Tables
+    - `public.security_events`
+      - Audit trail of security-relevant account events (MFA enrollment and
+        removal, recovery code generation and use)
+      - Written only by database functions and triggers
+    - `public.mfa_recovery_codes`
+      - One-time recovery codes, stored as SHA-256 hashes
+
+  2. New Functions
+    - `public.generate_recovery_codes()` - replaces the user's recovery codes
+      and returns the new plaintext codes once; requires an AAL2 session
+    - `public.recovery_codes_remaining()` - number of unused codes
+    - `public.redeem_recovery_code()` - consumes a code and removes the user's
+      TOTP factors so they can sign in and enroll a new authenticator
+
+  3. Security
+    - Enable RLS on both tables
+    - Users can view their own security events, admins can view all of them
+    - Recovery codes are only reachable through the functions above
+    - Triggers on `auth.mfa_factors` log enrollment and removal server-side
+*/
+
+-- Security event audit trail
+CREATE TABLE public.security_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  event_type TEXT NOT NULL,
+  details JSONB DEFAULT '{}'::jsonb NOT NULL,
+  ip_address TEXT,
+  device_info TEXT,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX security_events_user_id_created_at_idx
+  ON public.security_events (user_id, created_at DESC);
+
+-- Recovery codes
+CREATE TABLE public.mfa_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  code_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  used_at TIMESTAMPTZ
+);
+
+CREATE INDEX mfa_recovery_codes_user_id_idx ON public.mfa_recovery_codes (user_id);
+
+-- Enable RLS
+ALTER TABLE public.security_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own security events"
+  ON public.security_events
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all security events"
+  ON public.security_events
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+-- Append a security event, tagged with the calling request's IP and user agent
+CREATE OR REPLACE FUNCTION public.log_security_event(
+  p_user_id UUID,
+  p_event_type TEXT,
+  p_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO public.security_events (user_id, event_type, details, ip_address, device_info)
+  VALUES (p_user_id, p_event_type, COALESCE(p_details, '{}'::jsonb), public.request_ip(), public.request_user_agent());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.log_security_event(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.hash_recovery_code(p_code TEXT)
+RETURNS TEXT AS $$
+  SELECT encode(
+    extensions.digest(regexp_replace(lower(p_code), '[^a-z0-9]', '', 'g'), 'sha256'),
+    'hex'
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+REVOKE EXECUTE ON FUNCTION public.hash_recovery_code(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Replace the user's recovery codes and return the plaintext once
+CREATE OR REPLACE FUNCTION public.generate_recovery_codes()
+RETURNS TEXT[] AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_codes TEXT[] := ARRAY[]::TEXT[];
+  v_code TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(auth.jwt()->>'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION 'Recovery codes require a two-factor verified session' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.mfa_recovery_codes WHERE user_id = v_user_id;
+
+  FOR i IN 1..10 LOOP
+    v_code := encode(extensions.gen_random_bytes(5), 'hex');
+    v_code := substr(v_code, 1, 5) || '-' || substr(v_code, 6, 5);
+    v_codes := array_append(v_codes, v_code);
+
+    INSERT INTO public.mfa_recovery_codes (user_id, code_hash)
+    VALUES (v_user_id, public.hash_recovery_code(v_code));
+  END LOOP;
+
+  PERFORM public.log_security_event(v_user_id, 'recovery_codes_generated', jsonb_build_object('count', 10));
+
+  RETURN v_codes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.recovery_codes_remaining()
+RETURNS INTEGER AS $$
+  SELECT count(*)::INTEGER
+  FROM public.mfa_recovery_codes
+  WHERE user_id = auth.uid()
+    AND used_at IS NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Consume a recovery code in place of a TOTP challenge. The user's TOTP
+-- factors are removed so the session no longer needs AAL2; they are expected
+-- to enroll a new authenticator afterwards.
+CREATE OR REPLACE FUNCTION public.redeem_recovery_code(p_code TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_code_id UUID;
+  v_recent_failures INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT count(*) INTO v_recent_failures
+  FROM public.security_events
+  WHERE user_id = v_user_id
+    AND event_type = 'recovery_code_rejected'
+    AND created_at > now() - interval '15 minutes';
+
+  IF v_recent_failures >= 5 THEN
+    RAISE EXCEPTION 'Too many invalid recovery codes, try again later' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO v_code_id
+  FROM public.mfa_recovery_codes
+  WHERE user_id = v_user_id
+    AND used_at IS NULL
+    AND code_hash = public.hash_recovery_code(p_code)
+  LIMIT 1;
+
+  IF v_code_id IS NULL THEN
+    PERFORM public.log_security_event(v_user_id, 'recovery_code_rejected');
+    RETURN false;
+  END IF;
+
+  UPDATE public.mfa_recovery_codes SET used_at = now() WHERE id = v_code_id;
+
+  PERFORM public.log_security_event(v_user_id, 'recovery_code_used');
+
+  DELETE FROM auth.mfa_factors
+  WHERE user_id = v_user_id
+    AND factor_type = 'totp';
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.generate_recovery_codes() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.recovery_codes_remaining() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.redeem_recovery_code(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_recovery_codes() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.recovery_codes_remaining() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_recovery_code(TEXT) TO authenticated;
+
+-- Log factor enrollment and removal from the auth schema
+CREATE OR REPLACE FUNCTION public.handle_mfa_factor_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.status = 'verified' AND OLD.status <> 'verified' THEN
+      PERFORM public.log_security_event(
+        NEW.user_id,
+        'mfa_enrolled',
+        jsonb_build_object('factor_id', NEW.id, 'factor_type', NEW.factor_type, 'friendly_name', NEW.friendly_name)
+      );
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'verified' THEN
+    PERFORM public.log_security_event(
+      OLD.user_id,
+      'mfa_removed',
+      jsonb_build_object('factor_id', OLD.id, 'factor_type', OLD.factor_type, 'friendly_name', OLD.friendly_name)
+    );
+  END IF;
+
+  -- Recovery codes are only meaningful while a second factor exists
+  IF NOT EXISTS (
+    SELECT 1 FROM auth.mfa_factors
+    WHERE user_id = OLD.user_id
+      AND status = 'verified'
+      AND id <> OLD.id
+  ) THEN
+    DELETE FROM public.mfa_recovery_codes WHERE user_id = OLD.user_id;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_mfa_factor_changed
+  AFTER UPDATE OR DELETE ON auth.mfa_factors
+  FOR EACH ROW EXECUTE FUNCTION public.handle_mfa_factor_change();
@@ -0,0 +1,34 @@
+/*
+  # Security events reported by the client
+
+  1. New Functions
+    - `public.record_security_event()` - lets a signed-in user log one of a
+      fixed set of events that only the browser can observe, such as finishing
+      a password reset
+
+  2. Security
+    - Event types are checked against an allowlist; everything else in
+      `security_events` stays server-written
+    - IP address and user agent are taken from the request, not the caller
+*/
+
+CREATE OR REPLACE FUNCTION public.record_security_event(
+  p_event_type TEXT,
+  p_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_event_type NOT IN ('password_reset') THEN
+    RAISE EXCEPTION 'Unsupported security event: %', p_event_type USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM public.log_security_event(auth.uid(), p_event_type, p_details);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.record_security_event(TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_security_event(TEXT, JSONB) TO authenticated;
@@ -0,0 +1,79 @@
+/*
+  # Email and password changes
+
+  1. New Functions
+    - `public.verify_current_password()` - checks the signed-in user's current
+      password before the Profile page lets them change their email or password
+
+  2. Changes
+    - A trigger on `auth.users` writes confirmed email changes and password
+      changes to `profile_changes`. Password values are always redacted.
+
+  3. Security
+    - Repeated wrong passwords are logged to `security_events` and the check is
+      refused after five failures in fifteen minutes
+    - Email changes must be confirmed from both the old and the new address;
+      enable "Secure email change" under Authentication > Providers > Email
+*/
+
+CREATE OR REPLACE FUNCTION public.verify_current_password(p_password TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_recent_failures INTEGER;
+  v_matches BOOLEAN;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT count(*) INTO v_recent_failures
+  FROM public.security_events
+  WHERE user_id = v_user_id
+    AND event_type = 'password_verification_failed'
+    AND created_at > now() - interval '15 minutes';
+
+  IF v_recent_failures >= 5 THEN
+    RAISE EXCEPTION 'Too many incorrect passwords, try again later' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT encrypted_password = extensions.crypt(p_password, encrypted_password)
+  INTO v_matches
+  FROM auth.users
+  WHERE id = v_user_id;
+
+  IF NOT COALESCE(v_matches, false) THEN
+    PERFORM public.log_security_event(v_user_id, 'password_verification_failed');
+    RETURN false;
+  END IF;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.verify_current_password(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.verify_current_password(TEXT) TO authenticated;
+
+-- Audit email and password changes made through the auth server
+CREATE OR REPLACE FUNCTION public.handle_auth_user_updated()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_changed_by UUID := COALESCE(auth.uid(), NEW.id);
+BEGIN
+  IF NEW.email IS DISTINCT FROM OLD.email THEN
+    INSERT INTO public.profile_changes (user_id, field_changed, old_value, new_value, changed_by)
+    VALUES (NEW.id, 'email', OLD.email, NEW.email, v_changed_by);
+  END IF;
+
+  IF NEW.encrypted_password IS DISTINCT FROM OLD.encrypted_password THEN
+    INSERT INTO public.profile_changes (user_id, field_changed, old_value, new_value, changed_by)
+    VALUES (NEW.id, 'password', '[redacted]', '[redacted]', v_changed_by);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_updated
+  AFTER UPDATE OF email, encrypted_password ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.handle_auth_user_updated();
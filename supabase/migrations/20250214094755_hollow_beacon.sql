@@ -0,0 +1,113 @@
+/*
+  # Active sessions and remote sign-out
+
+  1. New Functions
+    - `public.list_my_sessions()` - the signed-in user's active sessions, with
+      device and IP taken from the login that created each one
+    - `public.revoke_session()` - ends one of the user's other sessions
+    - `public.revoke_other_sessions()` - ends every session except the current one
+    - `public.current_session_active()` - lets a tab find out promptly that its
+      session was revoked, without waiting for the access token to expire
+
+  2. Security
+    - Users can only see and revoke their own sessions
+    - Revocations are written to `security_events`
+*/
+
+CREATE OR REPLACE FUNCTION public.current_session_id()
+RETURNS UUID AS $$
+  SELECT NULLIF(auth.jwt()->>'session_id', '')::UUID;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.list_my_sessions()
+RETURNS TABLE (
+  id UUID,
+  created_at TIMESTAMPTZ,
+  last_active_at TIMESTAMPTZ,
+  ip_address TEXT,
+  device_info TEXT,
+  aal TEXT,
+  is_current BOOLEAN
+) AS $$
+  SELECT
+    s.id,
+    s.created_at,
+    COALESCE(s.refreshed_at AT TIME ZONE 'UTC', s.updated_at, s.created_at),
+    COALESCE(lh.ip_address, host(s.ip)),
+    COALESCE(lh.device_info, s.user_agent),
+    s.aal::TEXT,
+    s.id = public.current_session_id()
+  FROM auth.sessions s
+  LEFT JOIN public.login_history lh ON lh.session_id = s.id AND lh.success
+  WHERE s.user_id = auth.uid()
+    AND (s.not_after IS NULL OR s.not_after > now())
+  ORDER BY s.id = public.current_session_id() DESC, 3 DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.revoke_session(p_session_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_session_id = public.current_session_id() THEN
+    RAISE EXCEPTION 'Use sign out to end the current session' USING ERRCODE = '22023';
+  END IF;
+
+  -- Refresh tokens cascade with the session
+  DELETE FROM auth.sessions
+  WHERE id = p_session_id
+    AND user_id = v_user_id;
+
+  IF FOUND THEN
+    PERFORM public.log_security_event(v_user_id, 'session_revoked', jsonb_build_object('session_id', p_session_id));
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.revoke_other_sessions()
+RETURNS INTEGER AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_count INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM auth.sessions
+  WHERE user_id = v_user_id
+    AND id IS DISTINCT FROM public.current_session_id();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  IF v_count > 0 THEN
+    PERFORM public.log_security_event(v_user_id, 'other_sessions_revoked', jsonb_build_object('count', v_count));
+  END IF;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.current_session_active()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM auth.sessions
+    WHERE id = public.current_session_id()
+      AND user_id = auth.uid()
+      AND (not_after IS NULL OR not_after > now())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.list_my_sessions() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.revoke_session(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.revoke_other_sessions() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.current_session_active() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.list_my_sessions() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_session(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_other_sessions() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.current_session_active() TO authenticated;
@@ -0,0 +1,58 @@
+/*
+  # Database-enforced profile change auditing
+
+  1. Changes
+    - `profiles.updated_at` is stamped by a BEFORE UPDATE trigger
+    - An AFTER UPDATE trigger diffs OLD and NEW and writes one
+      `profile_changes` row per changed column, in the same transaction as the
+      update, so edits from any client or the SQL console are logged and a
+      failed update leaves no audit rows behind
+    - `changed_by` is taken from `auth.uid()` instead of the client
+
+  2. Security
+    - Remove the client INSERT policy on `profile_changes`; the table is now
+      written only by triggers
+*/
+
+CREATE OR REPLACE FUNCTION public.stamp_profile_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER on_profile_updating
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_profile_updated_at();
+
+-- One audit row per changed column; bookkeeping columns are skipped
+CREATE OR REPLACE FUNCTION public.audit_profile_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old JSONB := to_jsonb(OLD);
+  v_new JSONB := to_jsonb(NEW);
+  v_field TEXT;
+BEGIN
+  FOR v_field IN
+    SELECT key
+    FROM jsonb_object_keys(v_new) AS key
+    WHERE key NOT IN ('id', 'created_at', 'updated_at')
+    ORDER BY key
+  LOOP
+    IF v_old->v_field IS DISTINCT FROM v_new->v_field THEN
+      INSERT INTO public.profile_changes (user_id, field_changed, old_value, new_value, changed_by)
+      VALUES (NEW.id, v_field, v_old->>v_field, v_new->>v_field, auth.uid());
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_profile_updated
+  AFTER UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.audit_profile_changes();
+
+-- Clients may no longer write the audit log directly
+DROP POLICY "Users can insert own profile changes" ON public.profile_changes;
@@ -0,0 +1,14 @@
+/*
+  # Indexes for paginated history tables
+
+  1. Changes
+    - Index `profile_changes` by user and timestamp so the Profile page can
+      page, filter and sort a user's change history server-side
+    - `login_history` already has the equivalent index
+*/
+
+CREATE INDEX profile_changes_user_id_change_timestamp_idx
+  ON public.profile_changes (user_id, change_timestamp DESC);
+
+CREATE INDEX profile_changes_user_id_field_changed_idx
+  ON public.profile_changes (user_id, field_changed);
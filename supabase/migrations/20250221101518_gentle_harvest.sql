@@ -0,0 +1,176 @@
+/*
+  # Self-service data export and account deletion
+
+  1. New Tables
+    - `public.account_deletion_requests`
+      - At most one row per user; a request is pending while `cancelled_at`
+        is null
+      - The account is hard-deleted once `scheduled_for` has passed
+
+  2. Changes
+    - Add `account_deletion_grace_period` to `security_settings`
+
+  3. New Functions
+    - `public.export_my_data()` - the user's profile, login history, change
+      history and security events as one JSON document
+    - `public.request_account_deletion()` - re-checks the password and schedules
+      deletion after the grace period
+    - `public.cancel_account_deletion()` - cancels a pending request
+    - `public.process_account_deletions()` - deletes accounts whose grace period
+      has ended; run hourly by pg_cron. Deleting from `auth.users` cascades to
+      every table that references the user.
+
+  4. Security
+    - Enable RLS on `account_deletion_requests`; users can view their own request
+    - Requests and cancellations are written to `security_events`
+*/
+
+ALTER TABLE public.security_settings
+  ADD COLUMN account_deletion_grace_period INTERVAL DEFAULT '14 days' NOT NULL;
+
+CREATE TABLE public.account_deletion_requests (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  requested_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  scheduled_for TIMESTAMPTZ NOT NULL,
+  cancelled_at TIMESTAMPTZ
+);
+
+ALTER TABLE public.account_deletion_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own deletion request"
+  ON public.account_deletion_requests
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all deletion requests"
+  ON public.account_deletion_requests
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+-- Personal data export
+CREATE OR REPLACE FUNCTION public.export_my_data()
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'exported_at', now(),
+    'account', (
+      SELECT jsonb_build_object('id', id, 'email', email, 'created_at', created_at, 'last_sign_in_at', last_sign_in_at)
+      FROM auth.users
+      WHERE id = v_user_id
+    ),
+    'profile', (
+      SELECT to_jsonb(p) FROM public.profiles p WHERE p.id = v_user_id
+    ),
+    'login_history', COALESCE((
+      SELECT jsonb_agg(to_jsonb(lh) ORDER BY lh.login_timestamp DESC)
+      FROM public.login_history lh
+      WHERE lh.user_id = v_user_id
+    ), '[]'::jsonb),
+    'profile_changes', COALESCE((
+      SELECT jsonb_agg(to_jsonb(pc) ORDER BY pc.change_timestamp DESC)
+      FROM public.profile_changes pc
+      WHERE pc.user_id = v_user_id
+    ), '[]'::jsonb),
+    'security_events', COALESCE((
+      SELECT jsonb_agg(to_jsonb(se) ORDER BY se.created_at DESC)
+      FROM public.security_events se
+      WHERE se.user_id = v_user_id
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Schedule deletion after the grace period; returns when it will happen, or
+-- null for a wrong password (raising would roll back the failed-attempt log)
+CREATE OR REPLACE FUNCTION public.request_account_deletion(p_password TEXT)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_scheduled_for TIMESTAMPTZ;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT public.verify_current_password(p_password) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT now() + account_deletion_grace_period INTO v_scheduled_for
+  FROM public.security_settings;
+
+  INSERT INTO public.account_deletion_requests (user_id, requested_at, scheduled_for, cancelled_at)
+  VALUES (v_user_id, now(), v_scheduled_for, NULL)
+  ON CONFLICT (user_id) DO UPDATE
+    SET requested_at = EXCLUDED.requested_at,
+        scheduled_for = EXCLUDED.scheduled_for,
+        cancelled_at = NULL;
+
+  PERFORM public.log_security_event(v_user_id, 'account_deletion_requested', jsonb_build_object('scheduled_for', v_scheduled_for));
+
+  RETURN v_scheduled_for;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.cancel_account_deletion()
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.account_deletion_requests
+  SET cancelled_at = now()
+  WHERE user_id = v_user_id
+    AND cancelled_at IS NULL;
+
+  IF FOUND THEN
+    PERFORM public.log_security_event(v_user_id, 'account_deletion_cancelled');
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Hard delete accounts whose grace period has ended
+CREATE OR REPLACE FUNCTION public.process_account_deletions()
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM auth.users
+  WHERE id IN (
+    SELECT user_id
+    FROM public.account_deletion_requests
+    WHERE cancelled_at IS NULL
+      AND scheduled_for <= now()
+  );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.export_my_data() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.request_account_deletion(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.cancel_account_deletion() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.process_account_deletions() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.export_my_data() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.request_account_deletion(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_account_deletion() TO authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'process-account-deletions',
+  '0 * * * *',
+  'SELECT public.process_account_deletions()'
+);
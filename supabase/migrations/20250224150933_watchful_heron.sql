@@ -0,0 +1,195 @@
+/*
+  # New-device and suspicious-login detection
+
+  1. New Tables
+    - `public.notifications`
+      - In-app notifications for a user, unread while `read_at` is null
+
+  2. Changes
+    - Add `risk_flags` to `login_history`. Successful logins are compared with
+      the user's earlier successful logins as they are inserted:
+      - `new_device` - a browser/OS combination not seen before (version
+        numbers are ignored so routine updates don't trigger it)
+      - `new_ip` - an IP address not seen before
+      - `after_failures` - three or more failed attempts in the preceding
+        fifteen minutes
+    - Flagged logins create a notification; a user's very first login never does
+    - New `report_unrecognized_login` RPC backs the "This wasn't me" action: it
+      signs out every other session and logs a security event
+
+  3. Security
+    - Enable RLS on `notifications`
+    - Users can view their own notifications and may only update `read_at`
+*/
+
+ALTER TABLE public.login_history
+  ADD COLUMN risk_flags TEXT[] DEFAULT '{}' NOT NULL;
+
+CREATE TABLE public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  metadata JSONB DEFAULT '{}'::jsonb NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  read_at TIMESTAMPTZ
+);
+
+CREATE INDEX notifications_user_id_created_at_idx
+  ON public.notifications (user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications"
+  ON public.notifications
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark own notifications read"
+  ON public.notifications
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+REVOKE UPDATE ON public.notifications FROM authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
+
+-- Device fingerprint that ignores version numbers
+CREATE OR REPLACE FUNCTION public.device_family(p_device_info TEXT)
+RETURNS TEXT AS $$
+  SELECT NULLIF(regexp_replace(p_device_info, '[0-9._]+', '', 'g'), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Compare a successful login with the user's earlier ones
+CREATE OR REPLACE FUNCTION public.flag_risky_login()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_flags TEXT[] := '{}';
+BEGIN
+  IF NOT NEW.success THEN
+    RETURN NEW;
+  END IF;
+
+  -- Nothing to compare a first login with
+  IF NOT EXISTS (
+    SELECT 1 FROM public.login_history
+    WHERE user_id = NEW.user_id AND success
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.device_info IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.login_history
+    WHERE user_id = NEW.user_id
+      AND success
+      AND public.device_family(device_info) = public.device_family(NEW.device_info)
+  ) THEN
+    v_flags := array_append(v_flags, 'new_device');
+  END IF;
+
+  IF NEW.ip_address IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.login_history
+    WHERE user_id = NEW.user_id
+      AND success
+      AND ip_address = NEW.ip_address
+  ) THEN
+    v_flags := array_append(v_flags, 'new_ip');
+  END IF;
+
+  IF (
+    SELECT count(*) FROM public.login_history
+    WHERE user_id = NEW.user_id
+      AND NOT success
+      AND login_timestamp > now() - interval '15 minutes'
+  ) >= 3 THEN
+    v_flags := array_append(v_flags, 'after_failures');
+  END IF;
+
+  NEW.risk_flags := v_flags;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_login_history_flagging
+  BEFORE INSERT ON public.login_history
+  FOR EACH ROW EXECUTE FUNCTION public.flag_risky_login();
+
+-- Tell the user about flagged logins
+CREATE OR REPLACE FUNCTION public.notify_risky_login()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_type TEXT;
+  v_title TEXT;
+BEGIN
+  IF cardinality(NEW.risk_flags) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF 'after_failures' = ANY(NEW.risk_flags) THEN
+    v_type := 'suspicious_login';
+    v_title := 'Sign-in after several failed attempts';
+  ELSIF 'new_device' = ANY(NEW.risk_flags) THEN
+    v_type := 'new_device';
+    v_title := 'New sign-in from an unrecognized device';
+  ELSE
+    v_type := 'new_ip';
+    v_title := 'New sign-in from an unrecognized location';
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, body, metadata)
+  VALUES (
+    NEW.user_id,
+    v_type,
+    v_title,
+    concat_ws(' from ', NULLIF(NEW.device_info, ''), NULLIF(NEW.ip_address, '')),
+    jsonb_build_object(
+      'login_id', NEW.id,
+      'session_id', NEW.session_id,
+      'ip_address', NEW.ip_address,
+      'device_info', NEW.device_info,
+      'risk_flags', to_jsonb(NEW.risk_flags)
+    )
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_login_history_flagged
+  AFTER INSERT ON public.login_history
+  FOR EACH ROW EXECUTE FUNCTION public.notify_risky_login();
+
+-- "This wasn't me": end every other session and record the report
+CREATE OR REPLACE FUNCTION public.report_unrecognized_login(p_notification_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_metadata JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.notifications
+  SET read_at = COALESCE(read_at, now())
+  WHERE id = p_notification_id
+    AND user_id = v_user_id
+  RETURNING metadata INTO v_metadata;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Notification not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  DELETE FROM auth.sessions
+  WHERE user_id = v_user_id
+    AND id IS DISTINCT FROM public.current_session_id();
+
+  PERFORM public.log_security_event(v_user_id, 'login_reported_unrecognized', v_metadata);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.report_unrecognized_login(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.report_unrecognized_login(UUID) TO authenticated;
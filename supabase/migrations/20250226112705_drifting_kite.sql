@@ -0,0 +1,80 @@
+/*
+  # Passwordless and single-sign-on logins
+
+  1. Changes
+    - `handle_new_user` falls back to provider metadata for names, so users
+      created by OAuth get a usable profile:
+      - `given_name` / `family_name` (OIDC providers such as Google)
+      - `full_name` / `name` split at the first space (GitHub and others)
+    - Add `auth_method` and `auth_provider` to `login_history`
+      - Filled from the session's first authentication method claim, e.g.
+        `password`, `magiclink`, `otp`, `oauth`, `email/signup`, `recovery`
+      - `auth_provider` names the identity provider for `oauth` logins
+
+  2. Security
+    - No policy changes; the new columns are covered by the existing
+      `login_history` policies
+*/
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_meta JSONB := COALESCE(NEW.raw_user_meta_data, '{}'::jsonb);
+  v_full_name TEXT := trim(COALESCE(v_meta->>'full_name', v_meta->>'name', ''));
+BEGIN
+  INSERT INTO public.profiles (id, first_name, last_name)
+  VALUES (
+    NEW.id,
+    COALESCE(
+      NULLIF(v_meta->>'first_name', ''),
+      NULLIF(v_meta->>'given_name', ''),
+      split_part(v_full_name, ' ', 1)
+    ),
+    COALESCE(
+      NULLIF(v_meta->>'last_name', ''),
+      NULLIF(v_meta->>'family_name', ''),
+      trim(substr(v_full_name, length(split_part(v_full_name, ' ', 1)) + 1))
+    )
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.login_history
+  ADD COLUMN auth_method TEXT,
+  ADD COLUMN auth_provider TEXT;
+
+-- GoTrue records how a session was authenticated right after creating it;
+-- the first claim is the sign-in method, later ones (totp) are step-ups
+CREATE OR REPLACE FUNCTION public.record_login_method()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_user_id UUID;
+  v_provider TEXT;
+BEGIN
+  IF NEW.authentication_method = 'oauth' THEN
+    SELECT s.user_id INTO v_user_id
+    FROM auth.sessions s
+    WHERE s.id = NEW.session_id;
+
+    SELECT i.provider INTO v_provider
+    FROM auth.identities i
+    WHERE i.user_id = v_user_id
+    ORDER BY i.last_sign_in_at DESC NULLS LAST
+    LIMIT 1;
+  END IF;
+
+  UPDATE public.login_history
+  SET auth_method = NEW.authentication_method,
+      auth_provider = v_provider
+  WHERE session_id = NEW.session_id
+    AND success
+    AND auth_method IS NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_amr_claim_created
+  AFTER INSERT ON auth.mfa_amr_claims
+  FOR EACH ROW EXECUTE FUNCTION public.record_login_method();
@@ -0,0 +1,206 @@
+/*
+  # Validated, verifiable phone numbers
+
+  1. New Tables
+    - `public.phone_verifications`
+      - One-time codes sent by SMS to confirm a profile phone number
+      - Codes are stored hashed, expire after ten minutes and allow five tries
+
+  2. Changes
+    - `profiles.phone_number` must be in E.164 form (`+` and up to 15 digits);
+      existing values are normalized where possible and cleared otherwise
+      (the audit trigger keeps the old value in `profile_changes`)
+    - Add `profiles.phone_verified_at`
+      - Cleared whenever the phone number changes
+      - Only set by `verify_phone`; clients cannot write it directly
+    - `handle_new_user` copies a valid `phone_number` from sign-up metadata
+    - New functions
+      - `create_phone_verification(p_user_id)` - issues a code for the
+        `send-phone-otp` edge function; service role only
+      - `verify_phone(p_code)` - checks a code and marks the number verified
+
+  3. Security
+    - Enable RLS on `phone_verifications` with no client policies
+*/
+
+UPDATE public.profiles
+SET phone_number = CASE
+  WHEN regexp_replace(phone_number, '[^0-9+]', '', 'g') ~ '^\+[1-9][0-9]{6,14}$'
+    THEN regexp_replace(phone_number, '[^0-9+]', '', 'g')
+  ELSE NULL
+END
+WHERE phone_number IS NOT NULL;
+
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_phone_number_e164
+    CHECK (phone_number ~ '^\+[1-9][0-9]{6,14}$'),
+  ADD COLUMN phone_verified_at TIMESTAMPTZ;
+
+-- Runs as the caller so it can tell client updates from definer functions
+CREATE OR REPLACE FUNCTION public.guard_phone_verification()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.phone_number IS DISTINCT FROM OLD.phone_number THEN
+    NEW.phone_verified_at := NULL;
+  ELSIF NEW.phone_verified_at IS DISTINCT FROM OLD.phone_verified_at
+    AND current_user IN ('anon', 'authenticated') THEN
+    NEW.phone_verified_at := OLD.phone_verified_at;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER on_profile_phone_updating
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.guard_phone_verification();
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_meta JSONB := COALESCE(NEW.raw_user_meta_data, '{}'::jsonb);
+  v_full_name TEXT := trim(COALESCE(v_meta->>'full_name', v_meta->>'name', ''));
+  v_phone TEXT := v_meta->>'phone_number';
+BEGIN
+  INSERT INTO public.profiles (id, first_name, last_name, phone_number)
+  VALUES (
+    NEW.id,
+    COALESCE(
+      NULLIF(v_meta->>'first_name', ''),
+      NULLIF(v_meta->>'given_name', ''),
+      split_part(v_full_name, ' ', 1)
+    ),
+    COALESCE(
+      NULLIF(v_meta->>'last_name', ''),
+      NULLIF(v_meta->>'family_name', ''),
+      trim(substr(v_full_name, length(split_part(v_full_name, ' ', 1)) + 1))
+    ),
+    CASE WHEN v_phone ~ '^\+[1-9][0-9]{6,14}$' THEN v_phone END
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TABLE public.phone_verifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  phone_number TEXT NOT NULL,
+  code_hash TEXT NOT NULL,
+  attempts INTEGER DEFAULT 0 NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  expires_at TIMESTAMPTZ DEFAULT now() + interval '10 minutes' NOT NULL,
+  consumed_at TIMESTAMPTZ
+);
+
+CREATE INDEX phone_verifications_user_id_created_at_idx
+  ON public.phone_verifications (user_id, created_at DESC);
+
+ALTER TABLE public.phone_verifications ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.hash_phone_code(p_verification_id UUID, p_code TEXT)
+RETURNS TEXT AS $$
+  SELECT encode(extensions.digest(p_verification_id::text || ':' || trim(p_code), 'sha256'), 'hex');
+$$ LANGUAGE sql IMMUTABLE;
+
+REVOKE EXECUTE ON FUNCTION public.hash_phone_code(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Issue a code for the user's current number; the edge function sends it.
+-- Returns no rows when there is nothing to verify or codes were requested too often.
+CREATE OR REPLACE FUNCTION public.create_phone_verification(p_user_id UUID)
+RETURNS TABLE (phone_number TEXT, code TEXT) AS $$
+DECLARE
+  v_phone TEXT;
+  v_id UUID := gen_random_uuid();
+  v_code TEXT := lpad(
+    (('x' || encode(extensions.gen_random_bytes(4), 'hex'))::bit(32)::BIGINT % 1000000)::TEXT,
+    6,
+    '0'
+  );
+BEGIN
+  SELECT p.phone_number INTO v_phone
+  FROM public.profiles p
+  WHERE p.id = p_user_id
+    AND p.phone_number IS NOT NULL
+    AND p.phone_verified_at IS NULL;
+
+  IF v_phone IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- One code a minute and five an hour
+  IF EXISTS (
+    SELECT 1 FROM public.phone_verifications v
+    WHERE v.user_id = p_user_id
+      AND v.created_at > now() - interval '1 minute'
+  ) OR (
+    SELECT count(*) FROM public.phone_verifications v
+    WHERE v.user_id = p_user_id
+      AND v.created_at > now() - interval '1 hour'
+  ) >= 5 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.phone_verifications (id, user_id, phone_number, code_hash)
+  VALUES (v_id, p_user_id, v_phone, public.hash_phone_code(v_id, v_code));
+
+  phone_number := v_phone;
+  code := v_code;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.create_phone_verification(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_phone_verification(UUID) TO service_role;
+
+-- Check a code against the newest one sent to the user's current number
+CREATE OR REPLACE FUNCTION public.verify_phone(p_code TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_verification public.phone_verifications%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT v.* INTO v_verification
+  FROM public.phone_verifications v
+  JOIN public.profiles p ON p.id = v.user_id AND p.phone_number = v.phone_number
+  WHERE v.user_id = v_user_id
+    AND v.consumed_at IS NULL
+    AND v.expires_at > now()
+    AND v.attempts < 5
+  ORDER BY v.created_at DESC
+  LIMIT 1
+  FOR UPDATE OF v;
+
+  IF v_verification.id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  IF v_verification.code_hash <> public.hash_phone_code(v_verification.id, p_code) THEN
+    UPDATE public.phone_verifications
+    SET attempts = attempts + 1
+    WHERE id = v_verification.id;
+    RETURN FALSE;
+  END IF;
+
+  UPDATE public.phone_verifications
+  SET consumed_at = now()
+  WHERE id = v_verification.id;
+
+  UPDATE public.profiles
+  SET phone_verified_at = now()
+  WHERE id = v_user_id;
+
+  PERFORM public.log_security_event(
+    v_user_id,
+    'phone_verified',
+    jsonb_build_object('phone_number', v_verification.phone_number)
+  );
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.verify_phone(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.verify_phone(TEXT) TO authenticated;
@@ -0,0 +1,11 @@
+/*
+  # Support role
+
+  1. Changes
+    - Add `support` to `public.app_role`
+
+  Kept in its own migration because a new enum value cannot be used in the
+  transaction that adds it; permissions for the role follow in the next one.
+*/
+
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'support';
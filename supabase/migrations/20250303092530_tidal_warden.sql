@@ -0,0 +1,247 @@
+/*
+  # Role permissions
+
+  1. New Tables
+    - `public.role_permissions`
+      - Which permissions each role grants; seeded for `admin` and `support`
+        - `users:read` - list users and view their profiles
+        - `users:unlock` - lift login lockouts early
+        - `audit:read` - view everyone's login history, profile changes,
+          security events, login attempts and lockouts
+        - `roles:manage` - grant and revoke roles
+        - `settings:manage` - view and change security settings
+
+  2. New Functions
+    - `public.has_role(p_role)` and `public.has_permission(p_permission)` for
+      the current user
+
+  3. Security
+    - Enable RLS on `role_permissions`; any signed-in user can read it so the
+      app can tell which screens to show
+    - Admin-only policies and functions now check permissions instead of the
+      `admin` role, so `support` gets read access without role management
+*/
+
+CREATE TABLE public.role_permissions (
+  role public.app_role NOT NULL,
+  permission TEXT NOT NULL,
+  PRIMARY KEY (role, permission)
+);
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'users:read'),
+  ('admin', 'users:unlock'),
+  ('admin', 'audit:read'),
+  ('admin', 'roles:manage'),
+  ('admin', 'settings:manage'),
+  ('support', 'users:read'),
+  ('support', 'users:unlock'),
+  ('support', 'audit:read');
+
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view role permissions"
+  ON public.role_permissions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Definer functions, like is_admin, so policies on user_roles don't recurse
+CREATE OR REPLACE FUNCTION public.has_role(p_role public.app_role)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = auth.uid()
+      AND role = p_role
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    JOIN public.role_permissions rp ON rp.role = ur.role
+    WHERE ur.user_id = auth.uid()
+      AND rp.permission = p_permission
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.has_role(public.app_role) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.has_role(public.app_role) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.has_permission(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.has_permission(TEXT) TO authenticated;
+
+-- Roles
+DROP POLICY "Admins can view all roles" ON public.user_roles;
+DROP POLICY "Admins can grant roles" ON public.user_roles;
+DROP POLICY "Admins can revoke roles" ON public.user_roles;
+
+CREATE POLICY "Staff can view all roles"
+  ON public.user_roles
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('users:read'));
+
+CREATE POLICY "Role managers can grant roles"
+  ON public.user_roles
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_permission('roles:manage'));
+
+CREATE POLICY "Role managers can revoke roles"
+  ON public.user_roles
+  FOR DELETE
+  TO authenticated
+  USING (public.has_permission('roles:manage'));
+
+-- Users and their history
+DROP POLICY "Admins can view all profiles" ON public.profiles;
+DROP POLICY "Admins can view all login history" ON public.login_history;
+DROP POLICY "Admins can view all profile changes" ON public.profile_changes;
+DROP POLICY "Admins can view all security events" ON public.security_events;
+DROP POLICY "Admins can view login attempts" ON public.login_attempts;
+DROP POLICY "Admins can view lockouts" ON public.account_lockouts;
+DROP POLICY "Admins can view all deletion requests" ON public.account_deletion_requests;
+
+CREATE POLICY "Staff can view all profiles"
+  ON public.profiles
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('users:read'));
+
+CREATE POLICY "Staff can view all deletion requests"
+  ON public.account_deletion_requests
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('users:read'));
+
+CREATE POLICY "Auditors can view all login history"
+  ON public.login_history
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('audit:read'));
+
+CREATE POLICY "Auditors can view all profile changes"
+  ON public.profile_changes
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('audit:read'));
+
+CREATE POLICY "Auditors can view all security events"
+  ON public.security_events
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('audit:read'));
+
+CREATE POLICY "Auditors can view login attempts"
+  ON public.login_attempts
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('audit:read'));
+
+CREATE POLICY "Auditors can view lockouts"
+  ON public.account_lockouts
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('audit:read'));
+
+-- Security settings
+DROP POLICY "Admins can view security settings" ON public.security_settings;
+DROP POLICY "Admins can update security settings" ON public.security_settings;
+
+CREATE POLICY "Settings managers can view security settings"
+  ON public.security_settings
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('settings:manage'));
+
+CREATE POLICY "Settings managers can update security settings"
+  ON public.security_settings
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('settings:manage'));
+
+-- Admin functions
+CREATE OR REPLACE FUNCTION public.admin_unlock_account(p_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.has_permission('users:unlock') THEN
+    RAISE EXCEPTION 'Not allowed to unlock accounts' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.account_lockouts
+  SET unlocked_at = now(),
+      unlocked_by = auth.uid()
+  WHERE user_id = p_user_id
+    AND unlocked_at IS NULL
+    AND locked_until > now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.admin_list_users(
+  p_search TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  email TEXT,
+  first_name TEXT,
+  last_name TEXT,
+  phone_number TEXT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  last_login_at TIMESTAMPTZ,
+  last_login_ip TEXT,
+  last_login_device TEXT,
+  locked_until TIMESTAMPTZ,
+  total_count BIGINT
+) AS $$
+BEGIN
+  IF NOT public.has_permission('users:read') THEN
+    RAISE EXCEPTION 'Not allowed to list users' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    u.email::TEXT,
+    p.first_name,
+    p.last_name,
+    p.phone_number,
+    p.created_at,
+    p.updated_at,
+    l.login_timestamp,
+    l.ip_address,
+    l.device_info,
+    (
+      SELECT max(al.locked_until)
+      FROM public.account_lockouts al
+      WHERE al.user_id = p.id
+        AND al.unlocked_at IS NULL
+        AND al.locked_until > now()
+    ),
+    count(*) OVER ()
+  FROM public.profiles p
+  JOIN auth.users u ON u.id = p.id
+  LEFT JOIN LATERAL (
+    SELECT lh.login_timestamp, lh.ip_address, lh.device_info
+    FROM public.login_history lh
+    WHERE lh.user_id = p.id
+      AND lh.success
+    ORDER BY lh.login_timestamp DESC
+    LIMIT 1
+  ) l ON true
+  WHERE p_search IS NULL
+    OR p_search = ''
+    OR u.email ILIKE '%' || p_search || '%'
+    OR p.first_name ILIKE '%' || p_search || '%'
+    OR p.last_name ILIKE '%' || p_search || '%'
+    OR (p.first_name || ' ' || p.last_name) ILIKE '%' || p_search || '%'
+  ORDER BY p.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
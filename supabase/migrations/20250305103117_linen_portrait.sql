@@ -0,0 +1,58 @@
+/*
+  # Profile avatars
+
+  1. Changes
+    - Add `profiles.avatar_url`, the public URL of the user's avatar image;
+      changes are audited by the existing `profile_changes` trigger
+    - Create the public `avatars` storage bucket
+      - PNG, JPEG or WebP, at most 2 MB
+      - Each user's files live under a folder named after their user id
+
+  2. Security
+    - Anyone with the URL can read an avatar (public bucket)
+    - Users can upload, replace and delete files only in their own folder
+*/
+
+ALTER TABLE public.profiles
+  ADD COLUMN avatar_url TEXT;
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('avatars', 'avatars', true, 2097152, ARRAY['image/png', 'image/jpeg', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload own avatar"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can update own avatar"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete own avatar"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Listing and deleting go through SELECT as well
+CREATE POLICY "Users can view own avatar files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
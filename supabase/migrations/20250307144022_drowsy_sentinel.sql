@@ -0,0 +1,28 @@
+/*
+  # Record idle session timeouts
+
+  1. Changes
+    - `public.record_security_event()` accepts `session_timeout`, logged by
+      the browser just before it signs out a session that sat idle too long
+
+  2. Security
+    - The allowlist still keeps every other event type server-written
+*/
+
+CREATE OR REPLACE FUNCTION public.record_security_event(
+  p_event_type TEXT,
+  p_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_event_type NOT IN ('password_reset', 'session_timeout') THEN
+    RAISE EXCEPTION 'Unsupported security event: %', p_event_type USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM public.log_security_event(auth.uid(), p_event_type, p_details);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,229 @@
+/*
+  # Invitation-only registration
+
+  1. New Tables
+    - `public.invitations`
+      - An email address invited to sign up, optionally with a role to grant
+      - The token is sent as a link and stored hashed
+      - Pending until accepted, revoked or past `expires_at`
+
+  2. Changes
+    - Add `security_settings.invite_only`; while it is on, `handle_new_user`
+      rejects sign-ups without a valid invitation for the same email
+      (users invited from the Supabase dashboard are let through)
+    - `handle_new_user` accepts the invitation named by the `invite_token`
+      sign-up metadata and grants its role
+    - New `users:invite` permission for admins
+    - New functions
+      - `create_invitation(p_email, p_role, p_expires_at)` - returns the token once
+      - `revoke_invitation(p_invitation_id)`
+      - `get_invitation(p_token)` - the email and expiry for a pending token,
+        so the sign-up form can prefill it
+      - `signups_require_invitation()`
+
+  3. Security
+    - Enable RLS on `invitations`; users with `users:invite` can view them,
+      all writes go through the functions above
+    - Creating, revoking and accepting invitations is logged to `security_events`
+*/
+
+ALTER TABLE public.security_settings
+  ADD COLUMN invite_only BOOLEAN DEFAULT false NOT NULL;
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'users:invite');
+
+CREATE TABLE public.invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL,
+  role public.app_role,
+  token_hash TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMPTZ,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX invitations_email_idx ON public.invitations (lower(email));
+
+ALTER TABLE public.invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Inviters can view invitations"
+  ON public.invitations
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('users:invite'));
+
+CREATE OR REPLACE FUNCTION public.hash_invitation_token(p_token TEXT)
+RETURNS TEXT AS $$
+  SELECT encode(extensions.digest(trim(p_token), 'sha256'), 'hex');
+$$ LANGUAGE sql IMMUTABLE;
+
+REVOKE EXECUTE ON FUNCTION public.hash_invitation_token(TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_invitation(
+  p_email TEXT,
+  p_role public.app_role DEFAULT NULL,
+  p_expires_at TIMESTAMPTZ DEFAULT now() + interval '7 days'
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_email TEXT := lower(trim(p_email));
+  v_token TEXT := encode(extensions.gen_random_bytes(24), 'hex');
+  v_invitation_id UUID;
+BEGIN
+  IF NOT public.has_permission('users:invite') THEN
+    RAISE EXCEPTION 'Not allowed to invite users' USING ERRCODE = '42501';
+  END IF;
+
+  -- Pre-assigning a role is granting it
+  IF p_role IS NOT NULL AND NOT public.has_permission('roles:manage') THEN
+    RAISE EXCEPTION 'Not allowed to grant roles' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_email !~ '^[^@\s]+@[^@\s]+$' THEN
+    RAISE EXCEPTION 'Invalid email address' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_expires_at <= now() THEN
+    RAISE EXCEPTION 'Invitation must expire in the future' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM auth.users WHERE lower(email) = v_email) THEN
+    RAISE EXCEPTION 'An account with this email already exists' USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.invitations (email, role, token_hash, created_by, expires_at)
+  VALUES (v_email, p_role, public.hash_invitation_token(v_token), auth.uid(), p_expires_at)
+  RETURNING id INTO v_invitation_id;
+
+  PERFORM public.log_security_event(
+    auth.uid(),
+    'invitation_created',
+    jsonb_build_object('invitation_id', v_invitation_id, 'email', v_email, 'role', p_role, 'expires_at', p_expires_at)
+  );
+
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.revoke_invitation(p_invitation_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_email TEXT;
+BEGIN
+  IF NOT public.has_permission('users:invite') THEN
+    RAISE EXCEPTION 'Not allowed to revoke invitations' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.invitations
+  SET revoked_at = now(),
+      revoked_by = auth.uid()
+  WHERE id = p_invitation_id
+    AND revoked_at IS NULL
+    AND accepted_at IS NULL
+  RETURNING email INTO v_email;
+
+  IF v_email IS NULL THEN
+    RAISE EXCEPTION 'Invitation is not pending' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM public.log_security_event(
+    auth.uid(),
+    'invitation_revoked',
+    jsonb_build_object('invitation_id', p_invitation_id, 'email', v_email)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Anyone holding a pending token may learn which email it is for
+CREATE OR REPLACE FUNCTION public.get_invitation(p_token TEXT)
+RETURNS TABLE (email TEXT, expires_at TIMESTAMPTZ) AS $$
+  SELECT i.email, i.expires_at
+  FROM public.invitations i
+  WHERE i.token_hash = public.hash_invitation_token(p_token)
+    AND i.revoked_at IS NULL
+    AND i.accepted_at IS NULL
+    AND i.expires_at > now();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.signups_require_invitation()
+RETURNS BOOLEAN AS $$
+  SELECT invite_only FROM public.security_settings;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.create_invitation(TEXT, public.app_role, TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_invitation(TEXT, public.app_role, TIMESTAMPTZ) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.revoke_invitation(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.revoke_invitation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_invitation(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.signups_require_invitation() TO anon, authenticated;
+
+-- Raising here rolls back the auth.users insert, so the sign-up fails
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_meta JSONB := COALESCE(NEW.raw_user_meta_data, '{}'::jsonb);
+  v_full_name TEXT := trim(COALESCE(v_meta->>'full_name', v_meta->>'name', ''));
+  v_phone TEXT := v_meta->>'phone_number';
+  v_token TEXT := NULLIF(v_meta->>'invite_token', '');
+  v_invitation public.invitations;
+BEGIN
+  IF v_token IS NOT NULL THEN
+    SELECT * INTO v_invitation
+    FROM public.invitations
+    WHERE token_hash = public.hash_invitation_token(v_token)
+      AND lower(email) = lower(NEW.email)
+      AND revoked_at IS NULL
+      AND accepted_at IS NULL
+      AND expires_at > now()
+    FOR UPDATE;
+  END IF;
+
+  IF v_invitation.id IS NULL
+    AND NEW.invited_at IS NULL
+    AND (SELECT invite_only FROM public.security_settings) THEN
+    RAISE EXCEPTION 'A valid invitation is required to sign up' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.profiles (id, first_name, last_name, phone_number)
+  VALUES (
+    NEW.id,
+    COALESCE(
+      NULLIF(v_meta->>'first_name', ''),
+      NULLIF(v_meta->>'given_name', ''),
+      split_part(v_full_name, ' ', 1)
+    ),
+    COALESCE(
+      NULLIF(v_meta->>'last_name', ''),
+      NULLIF(v_meta->>'family_name', ''),
+      trim(substr(v_full_name, length(split_part(v_full_name, ' ', 1)) + 1))
+    ),
+    CASE WHEN v_phone ~ '^\+[1-9][0-9]{6,14}$' THEN v_phone END
+  );
+
+  IF v_invitation.id IS NOT NULL THEN
+    UPDATE public.invitations
+    SET accepted_at = now(),
+        accepted_by = NEW.id
+    WHERE id = v_invitation.id;
+
+    IF v_invitation.role IS NOT NULL THEN
+      INSERT INTO public.user_roles (user_id, role, granted_by)
+      VALUES (NEW.id, v_invitation.role, v_invitation.created_by)
+      ON CONFLICT DO NOTHING;
+    END IF;
+
+    PERFORM public.log_security_event(
+      NEW.id,
+      'invitation_accepted',
+      jsonb_build_object('invitation_id', v_invitation.id, 'role', v_invitation.role, 'invited_by', v_invitation.created_by)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,454 @@
+/*
+  # Organizations and memberships
+
+  1. New Tables
+    - `public.organizations`
+      - A client company whose users are managed together
+    - `public.organization_members`
+      - One row per user per organization, with an `org_role` of owner,
+        admin or member
+
+  2. Changes
+    - Add `invitations.organization_id` and `invitations.organization_role`;
+      `handle_new_user` adds the new user to that organization
+    - New helper functions
+      - `organization_role(p_organization_id)` - the caller's role, if any
+      - `is_organization_admin(p_organization_id)` - owner or admin
+      - `manages_user(p_user_id)` - the caller is an owner or admin of an
+        organization the user belongs to
+    - New functions
+      - `create_organization(p_name)` - the caller becomes its owner
+      - `list_organization_members(p_organization_id)`
+      - `invite_organization_member(p_organization_id, p_email, p_role)` -
+        adds an existing account straight away, otherwise returns an
+        invitation token
+      - `set_organization_member_role(p_organization_id, p_user_id, p_role)`
+      - `remove_organization_member(p_organization_id, p_user_id)` - also how
+        members leave
+    - `revoke_invitation` lets organization admins revoke their own invitations
+
+  3. Security
+    - Enable RLS on both tables; members can view their organizations and
+      fellow members, all writes go through the functions above
+    - Admins can grant member or admin; only owners can grant or take away
+      owner, and the last owner cannot be removed or demoted
+    - Organization owners and admins can view their members' login history and
+      profile changes, and invitations made for their organization
+    - Membership changes are logged to `security_events`
+*/
+
+CREATE TYPE public.org_role AS ENUM ('owner', 'admin', 'member');
+
+CREATE TABLE public.organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(trim(name)) BETWEEN 2 AND 100),
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE TABLE public.organization_members (
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  role public.org_role DEFAULT 'member' NOT NULL,
+  joined_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  added_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX organization_members_user_id_idx ON public.organization_members (user_id);
+
+ALTER TABLE public.invitations
+  ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  ADD COLUMN organization_role public.org_role,
+  ADD CHECK ((organization_id IS NULL) = (organization_role IS NULL));
+
+-- Definer functions so policies on organization_members don't recurse
+CREATE OR REPLACE FUNCTION public.organization_role(p_organization_id UUID)
+RETURNS public.org_role AS $$
+  SELECT role
+  FROM public.organization_members
+  WHERE organization_id = p_organization_id
+    AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_organization_admin(p_organization_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(public.organization_role(p_organization_id) IN ('owner', 'admin'), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.manages_user(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.organization_members manager
+    JOIN public.organization_members member ON member.organization_id = manager.organization_id
+    WHERE manager.user_id = auth.uid()
+      AND manager.role IN ('owner', 'admin')
+      AND member.user_id = p_user_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.organization_role(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.organization_role(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.is_organization_admin(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_organization_admin(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.manages_user(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.manages_user(UUID) TO authenticated;
+
+-- Enable RLS
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organizations"
+  ON public.organizations
+  FOR SELECT
+  TO authenticated
+  USING (public.organization_role(id) IS NOT NULL);
+
+CREATE POLICY "Organization admins can rename their organization"
+  ON public.organizations
+  FOR UPDATE
+  TO authenticated
+  USING (public.is_organization_admin(id));
+
+CREATE POLICY "Members can view fellow members"
+  ON public.organization_members
+  FOR SELECT
+  TO authenticated
+  USING (public.organization_role(organization_id) IS NOT NULL);
+
+CREATE POLICY "Organization admins can view members' login history"
+  ON public.login_history
+  FOR SELECT
+  TO authenticated
+  USING (public.manages_user(user_id));
+
+CREATE POLICY "Organization admins can view members' profile changes"
+  ON public.profile_changes
+  FOR SELECT
+  TO authenticated
+  USING (public.manages_user(user_id));
+
+CREATE POLICY "Organization admins can view their invitations"
+  ON public.invitations
+  FOR SELECT
+  TO authenticated
+  USING (organization_id IS NOT NULL AND public.is_organization_admin(organization_id));
+
+CREATE OR REPLACE FUNCTION public.create_organization(p_name TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_organization_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.organizations (name, created_by)
+  VALUES (trim(p_name), auth.uid())
+  RETURNING id INTO v_organization_id;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role, added_by)
+  VALUES (v_organization_id, auth.uid(), 'owner', auth.uid());
+
+  PERFORM public.log_security_event(
+    auth.uid(),
+    'organization_created',
+    jsonb_build_object('organization_id', v_organization_id, 'name', trim(p_name))
+  );
+
+  RETURN v_organization_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.list_organization_members(p_organization_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  first_name TEXT,
+  last_name TEXT,
+  avatar_url TEXT,
+  role public.org_role,
+  joined_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  IF public.organization_role(p_organization_id) IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this organization' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT m.user_id, u.email::TEXT, p.first_name, p.last_name, p.avatar_url, m.role, m.joined_at
+  FROM public.organization_members m
+  JOIN auth.users u ON u.id = m.user_id
+  JOIN public.profiles p ON p.id = m.user_id
+  WHERE m.organization_id = p_organization_id
+  ORDER BY m.role, p.last_name, p.first_name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Admins may hand out member and admin; owner is for owners to give
+CREATE OR REPLACE FUNCTION public.check_organization_grant(p_organization_id UUID, p_role public.org_role)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.is_organization_admin(p_organization_id) THEN
+    RAISE EXCEPTION 'Not allowed to manage this organization' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_role = 'owner' AND public.organization_role(p_organization_id) <> 'owner' THEN
+    RAISE EXCEPTION 'Only owners can grant ownership' USING ERRCODE = '42501';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.check_organization_grant(UUID, public.org_role) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.invite_organization_member(
+  p_organization_id UUID,
+  p_email TEXT,
+  p_role public.org_role DEFAULT 'member'
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_email TEXT := lower(trim(p_email));
+  v_user_id UUID;
+  v_token TEXT;
+BEGIN
+  PERFORM public.check_organization_grant(p_organization_id, p_role);
+
+  SELECT id INTO v_user_id FROM auth.users WHERE lower(email) = v_email;
+
+  IF v_user_id IS NOT NULL THEN
+    INSERT INTO public.organization_members (organization_id, user_id, role, added_by)
+    VALUES (p_organization_id, v_user_id, p_role, auth.uid())
+    ON CONFLICT (organization_id, user_id) DO NOTHING;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Already a member of this organization' USING ERRCODE = '23505';
+    END IF;
+
+    PERFORM public.log_security_event(
+      auth.uid(),
+      'organization_member_added',
+      jsonb_build_object('organization_id', p_organization_id, 'user_id', v_user_id, 'role', p_role)
+    );
+
+    RETURN NULL;
+  END IF;
+
+  IF v_email !~ '^[^@\s]+@[^@\s]+$' THEN
+    RAISE EXCEPTION 'Invalid email address' USING ERRCODE = '22023';
+  END IF;
+
+  v_token := encode(extensions.gen_random_bytes(24), 'hex');
+
+  INSERT INTO public.invitations (email, token_hash, created_by, expires_at, organization_id, organization_role)
+  VALUES (v_email, public.hash_invitation_token(v_token), auth.uid(), now() + interval '7 days', p_organization_id, p_role);
+
+  PERFORM public.log_security_event(
+    auth.uid(),
+    'invitation_created',
+    jsonb_build_object('organization_id', p_organization_id, 'email', v_email, 'organization_role', p_role)
+  );
+
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.set_organization_member_role(
+  p_organization_id UUID,
+  p_user_id UUID,
+  p_role public.org_role
+)
+RETURNS VOID AS $$
+DECLARE
+  v_current public.org_role;
+BEGIN
+  SELECT role INTO v_current
+  FROM public.organization_members
+  WHERE organization_id = p_organization_id
+    AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_current IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this organization' USING ERRCODE = '22023';
+  END IF;
+
+  -- Taking ownership away needs the same standing as giving it
+  PERFORM public.check_organization_grant(p_organization_id, CASE WHEN v_current = 'owner' THEN v_current ELSE p_role END);
+
+  IF v_current = 'owner' AND p_role <> 'owner' AND NOT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = p_organization_id AND role = 'owner' AND user_id <> p_user_id
+  ) THEN
+    RAISE EXCEPTION 'An organization needs at least one owner' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.organization_members
+  SET role = p_role
+  WHERE organization_id = p_organization_id
+    AND user_id = p_user_id;
+
+  PERFORM public.log_security_event(
+    auth.uid(),
+    'organization_member_role_changed',
+    jsonb_build_object('organization_id', p_organization_id, 'user_id', p_user_id, 'old_role', v_current, 'new_role', p_role)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.remove_organization_member(p_organization_id UUID, p_user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_current public.org_role;
+BEGIN
+  SELECT role INTO v_current
+  FROM public.organization_members
+  WHERE organization_id = p_organization_id
+    AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_current IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this organization' USING ERRCODE = '22023';
+  END IF;
+
+  -- Anyone may leave; removing someone else takes an admin, or an owner for owners
+  IF p_user_id <> auth.uid() THEN
+    PERFORM public.check_organization_grant(p_organization_id, v_current);
+  END IF;
+
+  IF v_current = 'owner' AND NOT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = p_organization_id AND role = 'owner' AND user_id <> p_user_id
+  ) THEN
+    RAISE EXCEPTION 'An organization needs at least one owner' USING ERRCODE = '22023';
+  END IF;
+
+  DELETE FROM public.organization_members
+  WHERE organization_id = p_organization_id
+    AND user_id = p_user_id;
+
+  PERFORM public.log_security_event(
+    auth.uid(),
+    'organization_member_removed',
+    jsonb_build_object('organization_id', p_organization_id, 'user_id', p_user_id, 'role', v_current)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.revoke_invitation(p_invitation_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_invitation public.invitations;
+BEGIN
+  SELECT * INTO v_invitation FROM public.invitations WHERE id = p_invitation_id;
+
+  IF NOT public.has_permission('users:invite')
+    AND NOT (v_invitation.organization_id IS NOT NULL AND public.is_organization_admin(v_invitation.organization_id)) THEN
+    RAISE EXCEPTION 'Not allowed to revoke invitations' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.invitations
+  SET revoked_at = now(),
+      revoked_by = auth.uid()
+  WHERE id = p_invitation_id
+    AND revoked_at IS NULL
+    AND accepted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation is not pending' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM public.log_security_event(
+    auth.uid(),
+    'invitation_revoked',
+    jsonb_build_object('invitation_id', p_invitation_id, 'email', v_invitation.email)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.create_organization(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_organization(TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.list_organization_members(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.list_organization_members(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.invite_organization_member(UUID, TEXT, public.org_role) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.invite_organization_member(UUID, TEXT, public.org_role) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.set_organization_member_role(UUID, UUID, public.org_role) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_organization_member_role(UUID, UUID, public.org_role) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.remove_organization_member(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.remove_organization_member(UUID, UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_meta JSONB := COALESCE(NEW.raw_user_meta_data, '{}'::jsonb);
+  v_full_name TEXT := trim(COALESCE(v_meta->>'full_name', v_meta->>'name', ''));
+  v_phone TEXT := v_meta->>'phone_number';
+  v_token TEXT := NULLIF(v_meta->>'invite_token', '');
+  v_invitation public.invitations;
+BEGIN
+  IF v_token IS NOT NULL THEN
+    SELECT * INTO v_invitation
+    FROM public.invitations
+    WHERE token_hash = public.hash_invitation_token(v_token)
+      AND lower(email) = lower(NEW.email)
+      AND revoked_at IS NULL
+      AND accepted_at IS NULL
+      AND expires_at > now()
+    FOR UPDATE;
+  END IF;
+
+  IF v_invitation.id IS NULL
+    AND NEW.invited_at IS NULL
+    AND (SELECT invite_only FROM public.security_settings) THEN
+    RAISE EXCEPTION 'A valid invitation is required to sign up' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.profiles (id, first_name, last_name, phone_number)
+  VALUES (
+    NEW.id,
+    COALESCE(
+      NULLIF(v_meta->>'first_name', ''),
+      NULLIF(v_meta->>'given_name', ''),
+      split_part(v_full_name, ' ', 1)
+    ),
+    COALESCE(
+      NULLIF(v_meta->>'last_name', ''),
+      NULLIF(v_meta->>'family_name', ''),
+      trim(substr(v_full_name, length(split_part(v_full_name, ' ', 1)) + 1))
+    ),
+    CASE WHEN v_phone ~ '^\+[1-9][0-9]{6,14}$' THEN v_phone END
+  );
+
+  IF v_invitation.id IS NOT NULL THEN
+    UPDATE public.invitations
+    SET accepted_at = now(),
+        accepted_by = NEW.id
+    WHERE id = v_invitation.id;
+
+    IF v_invitation.role IS NOT NULL THEN
+      INSERT INTO public.user_roles (user_id, role, granted_by)
+      VALUES (NEW.id, v_invitation.role, v_invitation.created_by)
+      ON CONFLICT DO NOTHING;
+    END IF;
+
+    IF v_invitation.organization_id IS NOT NULL THEN
+      INSERT INTO public.organization_members (organization_id, user_id, role, added_by)
+      VALUES (v_invitation.organization_id, NEW.id, v_invitation.organization_role, v_invitation.created_by)
+      ON CONFLICT DO NOTHING;
+    END IF;
+
+    PERFORM public.log_security_event(
+      NEW.id,
+      'invitation_accepted',
+      jsonb_build_object(
+        'invitation_id', v_invitation.id,
+        'role', v_invitation.role,
+        'organization_id', v_invitation.organization_id,
+        'invited_by', v_invitation.created_by
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,107 @@
+/*
+  # Password history
+
+  1. New Tables
+    - `public.password_history`
+      - A copy of each password hash a user has had, newest first
+      - Trimmed to the most recent `security_settings.password_history_size`
+
+  2. Changes
+    - Add `security_settings.password_history_size` (default 5; 0 turns the
+      check off)
+    - A trigger on `auth.users` records the hash whenever a password is set
+    - Existing passwords are copied in so the check works from day one
+    - New function
+      - `password_recently_used(p_password)` - whether the signed-in user has
+        had this password among their last `password_history_size`
+
+  3. Security
+    - Enable RLS on `password_history` with no policies; only the functions
+      here read or write it
+    - The auth server only ever sees plaintext, so reuse can't be refused in
+      the trigger; the change and reset forms call `password_recently_used`
+      before submitting the new password
+*/
+
+ALTER TABLE public.security_settings
+  ADD COLUMN password_history_size INTEGER DEFAULT 5 NOT NULL CHECK (password_history_size BETWEEN 0 AND 24);
+
+CREATE TABLE public.password_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  password_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX password_history_user_id_created_at_idx ON public.password_history (user_id, created_at DESC);
+
+ALTER TABLE public.password_history ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.password_history (user_id, password_hash)
+SELECT id, encrypted_password
+FROM auth.users
+WHERE COALESCE(encrypted_password, '') <> '';
+
+CREATE OR REPLACE FUNCTION public.record_password_history()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_keep INTEGER;
+BEGIN
+  -- OAuth and magic-link accounts have no password
+  IF COALESCE(NEW.encrypted_password, '') = '' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.encrypted_password IS NOT DISTINCT FROM OLD.encrypted_password THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT password_history_size INTO v_keep FROM public.security_settings;
+
+  INSERT INTO public.password_history (user_id, password_hash)
+  VALUES (NEW.id, NEW.encrypted_password);
+
+  DELETE FROM public.password_history
+  WHERE user_id = NEW.id
+    AND id NOT IN (
+      SELECT id
+      FROM public.password_history
+      WHERE user_id = NEW.id
+      ORDER BY created_at DESC
+      LIMIT v_keep
+    );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_password_set
+  AFTER INSERT OR UPDATE OF encrypted_password ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.record_password_history();
+
+-- bcrypt salts every hash, so each stored hash has to be checked in turn
+CREATE OR REPLACE FUNCTION public.password_recently_used(p_password TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM (
+      SELECT password_hash
+      FROM public.password_history
+      WHERE user_id = v_user_id
+      ORDER BY created_at DESC
+      LIMIT (SELECT password_history_size FROM public.security_settings)
+    ) recent
+    WHERE recent.password_hash = extensions.crypt(p_password, recent.password_hash)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.password_recently_used(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.password_recently_used(TEXT) TO authenticated;
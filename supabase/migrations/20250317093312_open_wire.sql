@@ -0,0 +1,120 @@
+/*
+  # Realtime history and per-user control channel
+
+  1. Changes
+    - Publish inserts on `login_history` and `profile_changes` through
+      Supabase Realtime, so open pages show new rows without reloading;
+      each subscriber only receives rows its RLS policies let it see
+    - New helper `send_control_message(p_user_id, p_event, p_payload)` that
+      broadcasts on the private topic `user:<user id>:control`
+    - Triggers broadcast on that topic when
+      - a session is deleted (`session_revoked`, with its `session_id`)
+      - the user's roles or their roles' permissions change (`access_changed`)
+      - the user's organization memberships change (`organizations_changed`)
+
+  2. Security
+    - Users can only receive broadcasts on their own control topic; there is
+      no policy for sending, so only these triggers can publish to it
+    - Enable "private channels only" under Realtime settings so the topic
+      can't be joined without these checks
+*/
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.login_history, public.profile_changes;
+
+CREATE POLICY "Users can receive their own control messages"
+  ON realtime.messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'broadcast'
+    AND realtime.topic() = 'user:' || auth.uid()::text || ':control'
+  );
+
+CREATE OR REPLACE FUNCTION public.send_control_message(
+  p_user_id UUID,
+  p_event TEXT,
+  p_payload JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM realtime.send(p_payload, p_event, 'user:' || p_user_id::text || ':control', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.send_control_message(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Access tokens outlive their session; this tells open tabs to drop them now
+CREATE OR REPLACE FUNCTION public.handle_session_deleted()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.send_control_message(OLD.user_id, 'session_revoked', jsonb_build_object('session_id', OLD.id));
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_session_deleted
+  AFTER DELETE ON auth.sessions
+  FOR EACH ROW EXECUTE FUNCTION public.handle_session_deleted();
+
+CREATE OR REPLACE FUNCTION public.handle_user_role_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.send_control_message(OLD.user_id, 'access_changed');
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.user_id <> OLD.user_id) THEN
+    PERFORM public.send_control_message(NEW.user_id, 'access_changed');
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_user_role_changed
+  AFTER INSERT OR UPDATE OR DELETE ON public.user_roles
+  FOR EACH ROW EXECUTE FUNCTION public.handle_user_role_change();
+
+-- A permission granted to or taken from a role reaches everyone holding it
+CREATE OR REPLACE FUNCTION public.handle_role_permission_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  FOR v_user_id IN
+    SELECT DISTINCT user_id
+    FROM public.user_roles
+    WHERE role IN (
+      CASE WHEN TG_OP <> 'INSERT' THEN OLD.role END,
+      CASE WHEN TG_OP <> 'DELETE' THEN NEW.role END
+    )
+  LOOP
+    PERFORM public.send_control_message(v_user_id, 'access_changed');
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_role_permission_changed
+  AFTER INSERT OR UPDATE OR DELETE ON public.role_permissions
+  FOR EACH ROW EXECUTE FUNCTION public.handle_role_permission_change();
+
+CREATE OR REPLACE FUNCTION public.handle_organization_member_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.send_control_message(OLD.user_id, 'organizations_changed');
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.user_id <> OLD.user_id) THEN
+    PERFORM public.send_control_message(NEW.user_id, 'organizations_changed');
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_organization_member_changed
+  AFTER INSERT OR UPDATE OR DELETE ON public.organization_members
+  FOR EACH ROW EXECUTE FUNCTION public.handle_organization_member_change();
@@ -0,0 +1,309 @@
+/*
+  # Audit retention and IP pseudonymization
+
+  1. New Tables
+    - `public.retention_policies`
+      - One row each for `login_history` and `profile_changes`
+      - `retain_for` - how long rows are kept before they expire
+      - `expired_action` - `delete` expired rows, or `archive` them into
+        `<table>_archive`
+      - `pseudonymize_after` (`login_history` only) - when the IP address is
+        truncated to its /24 (IPv4) or /48 (IPv6) network, a keyed hash of the
+        full address is kept in `ip_hash`, and the user agent is reduced to its
+        device family
+    - `public.retention_runs`
+      - One row per run of the retention job with its outcome and row counts
+    - `public.login_history_archive`, `public.profile_changes_archive`
+      - Expired rows kept under the `archive` action; still removed with the
+        account
+    - `public.pseudonymization_key`
+      - The secret the IP hashes are keyed with, so they can't be reversed by
+        hashing every address
+
+  2. Changes
+    - Add `login_history.ip_hash` and `login_history.pseudonymized_at`
+    - `flag_risky_login` also matches earlier logins by `ip_hash`, so an
+      address last seen before pseudonymization doesn't count as new
+    - New function `apply_retention_policies()`, run daily at 03:30 by pg_cron
+
+  3. Security
+    - Enable RLS on all new tables
+    - Settings managers can view and update retention policies and view runs
+    - Auditors can view the archives
+    - Nobody can read the pseudonymization key; only the hashing function uses it
+*/
+
+ALTER TABLE public.login_history
+  ADD COLUMN ip_hash TEXT,
+  ADD COLUMN pseudonymized_at TIMESTAMPTZ;
+
+CREATE TABLE public.retention_policies (
+  table_name TEXT PRIMARY KEY CHECK (table_name IN ('login_history', 'profile_changes')),
+  pseudonymize_after INTERVAL,
+  retain_for INTERVAL NOT NULL CHECK (retain_for >= interval '30 days'),
+  expired_action TEXT DEFAULT 'delete' NOT NULL CHECK (expired_action IN ('delete', 'archive')),
+  updated_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  CHECK (pseudonymize_after IS NULL OR table_name = 'login_history'),
+  CHECK (pseudonymize_after IS NULL OR pseudonymize_after < retain_for)
+);
+
+INSERT INTO public.retention_policies (table_name, pseudonymize_after, retain_for, expired_action) VALUES
+  ('login_history', '30 days', '1 year', 'delete'),
+  ('profile_changes', NULL, '2 years', 'archive');
+
+CREATE TABLE public.retention_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  started_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  finished_at TIMESTAMPTZ,
+  status TEXT DEFAULT 'running' NOT NULL CHECK (status IN ('running', 'succeeded', 'failed')),
+  pseudonymized_count INTEGER DEFAULT 0 NOT NULL,
+  archived_count INTEGER DEFAULT 0 NOT NULL,
+  deleted_count INTEGER DEFAULT 0 NOT NULL,
+  error TEXT
+);
+
+CREATE INDEX retention_runs_started_at_idx ON public.retention_runs (started_at DESC);
+
+CREATE TABLE public.login_history_archive (
+  LIKE public.login_history INCLUDING ALL,
+  archived_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
+CREATE TABLE public.profile_changes_archive (
+  LIKE public.profile_changes INCLUDING ALL,
+  archived_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
+CREATE TABLE public.pseudonymization_key (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  key BYTEA DEFAULT extensions.gen_random_bytes(32) NOT NULL
+);
+
+INSERT INTO public.pseudonymization_key DEFAULT VALUES;
+
+-- Enable RLS
+ALTER TABLE public.retention_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.retention_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.login_history_archive ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.profile_changes_archive ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pseudonymization_key ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Settings managers can view retention policies"
+  ON public.retention_policies
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('settings:manage'));
+
+CREATE POLICY "Settings managers can update retention policies"
+  ON public.retention_policies
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('settings:manage'));
+
+CREATE POLICY "Settings managers can view retention runs"
+  ON public.retention_runs
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('settings:manage'));
+
+CREATE POLICY "Auditors can view archived login history"
+  ON public.login_history_archive
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('audit:read'));
+
+CREATE POLICY "Auditors can view archived profile changes"
+  ON public.profile_changes_archive
+  FOR SELECT
+  TO authenticated
+  USING (public.has_permission('audit:read'));
+
+CREATE OR REPLACE FUNCTION public.stamp_retention_policy_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER on_retention_policy_updating
+  BEFORE UPDATE ON public.retention_policies
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_retention_policy_updated_at();
+
+-- The network part of an address; NULL for anything that isn't an address
+CREATE OR REPLACE FUNCTION public.truncate_ip(p_ip TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_ip INET;
+BEGIN
+  v_ip := p_ip::inet;
+  RETURN network(set_masklen(v_ip, CASE family(v_ip) WHEN 4 THEN 24 ELSE 48 END))::text;
+EXCEPTION
+  WHEN invalid_text_representation THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.hash_ip(p_ip TEXT)
+RETURNS TEXT AS $$
+  SELECT encode(extensions.hmac(convert_to(p_ip, 'UTF8'), key, 'sha256'), 'hex')
+  FROM public.pseudonymization_key;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.truncate_ip(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.hash_ip(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Compare a successful login with the user's earlier ones
+CREATE OR REPLACE FUNCTION public.flag_risky_login()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_flags TEXT[] := '{}';
+BEGIN
+  IF NOT NEW.success THEN
+    RETURN NEW;
+  END IF;
+
+  -- Nothing to compare a first login with
+  IF NOT EXISTS (
+    SELECT 1 FROM public.login_history
+    WHERE user_id = NEW.user_id AND success
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.device_info IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.login_history
+    WHERE user_id = NEW.user_id
+      AND success
+      AND public.device_family(device_info) = public.device_family(NEW.device_info)
+  ) THEN
+    v_flags := array_append(v_flags, 'new_device');
+  END IF;
+
+  -- Pseudonymized rows only keep the hash of their address
+  IF NEW.ip_address IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.login_history
+    WHERE user_id = NEW.user_id
+      AND success
+      AND (ip_address = NEW.ip_address OR ip_hash = public.hash_ip(NEW.ip_address))
+  ) THEN
+    v_flags := array_append(v_flags, 'new_ip');
+  END IF;
+
+  IF (
+    SELECT count(*) FROM public.login_history
+    WHERE user_id = NEW.user_id
+      AND NOT success
+      AND login_timestamp > now() - interval '15 minutes'
+  ) >= 3 THEN
+    v_flags := array_append(v_flags, 'after_failures');
+  END IF;
+
+  NEW.risk_flags := v_flags;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Deletes or archives rows older than p_retain_for; returns how many
+CREATE OR REPLACE FUNCTION public.expire_rows(
+  p_table TEXT,
+  p_timestamp_column TEXT,
+  p_retain_for INTERVAL,
+  p_action TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF p_action = 'archive' THEN
+    EXECUTE format(
+      'WITH expired AS (DELETE FROM public.%1$I WHERE %2$I < now() - $1 RETURNING *)
+       INSERT INTO public.%3$I SELECT * FROM expired',
+      p_table, p_timestamp_column, p_table || '_archive'
+    ) USING p_retain_for;
+  ELSE
+    EXECUTE format('DELETE FROM public.%I WHERE %I < now() - $1', p_table, p_timestamp_column)
+    USING p_retain_for;
+  END IF;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Run by pg_cron. A failure rolls back that run's changes and is recorded
+-- on its retention_runs row.
+CREATE OR REPLACE FUNCTION public.apply_retention_policies()
+RETURNS UUID AS $$
+DECLARE
+  v_run_id UUID;
+  v_policy public.retention_policies;
+  v_count INTEGER;
+  v_pseudonymized INTEGER := 0;
+  v_archived INTEGER := 0;
+  v_deleted INTEGER := 0;
+BEGIN
+  INSERT INTO public.retention_runs DEFAULT VALUES
+  RETURNING id INTO v_run_id;
+
+  BEGIN
+    FOR v_policy IN SELECT * FROM public.retention_policies ORDER BY table_name LOOP
+      IF v_policy.pseudonymize_after IS NOT NULL THEN
+        UPDATE public.login_history
+        SET ip_hash = public.hash_ip(ip_address),
+            ip_address = public.truncate_ip(ip_address),
+            device_info = public.device_family(device_info),
+            pseudonymized_at = now()
+        WHERE pseudonymized_at IS NULL
+          AND login_timestamp < now() - v_policy.pseudonymize_after;
+
+        GET DIAGNOSTICS v_count = ROW_COUNT;
+        v_pseudonymized := v_pseudonymized + v_count;
+      END IF;
+
+      v_count := public.expire_rows(
+        v_policy.table_name,
+        CASE v_policy.table_name WHEN 'login_history' THEN 'login_timestamp' ELSE 'change_timestamp' END,
+        v_policy.retain_for,
+        v_policy.expired_action
+      );
+
+      IF v_policy.expired_action = 'archive' THEN
+        v_archived := v_archived + v_count;
+      ELSE
+        v_deleted := v_deleted + v_count;
+      END IF;
+    END LOOP;
+  EXCEPTION
+    WHEN OTHERS THEN
+      UPDATE public.retention_runs
+      SET finished_at = now(),
+          status = 'failed',
+          error = SQLERRM
+      WHERE id = v_run_id;
+
+      RETURN v_run_id;
+  END;
+
+  UPDATE public.retention_runs
+  SET finished_at = now(),
+      status = 'succeeded',
+      pseudonymized_count = v_pseudonymized,
+      archived_count = v_archived,
+      deleted_count = v_deleted
+  WHERE id = v_run_id;
+
+  RETURN v_run_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.expire_rows(TEXT, TEXT, INTERVAL, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.apply_retention_policies() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'apply-retention-policies',
+  '30 3 * * *',
+  'SELECT public.apply_retention_policies()'
+);
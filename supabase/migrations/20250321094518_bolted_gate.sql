@@ -0,0 +1,83 @@
+/*
+  # Count failed sign-ins in the auth server
+
+  1. Changes
+    - `hook_password_verification_attempt` records every wrong password in
+      `login_history` and locks the account once `max_failed_attempts` is
+      reached, so the lockout holds for clients that call the auth API
+      directly instead of going through the sign-in form
+    - A rejected sign-in returns `Account locked until <ISO timestamp>`; the
+      form reads the expiry from that message
+    - Drop `record_failed_login` and `get_login_lockout`
+
+  2. Security
+    - Anonymous callers could lock any account by reporting failures for its
+      email, forge failure rows, and probe which emails have accounts; neither
+      function exists any more
+    - The hook isn't told the client's address, so failures it records have no
+      IP or user agent and IP lockouts are no longer created. Per-IP throttling
+      is left to the auth server's sign-in rate limit
+      (Authentication > Rate Limits).
+*/
+
+DROP FUNCTION public.record_failed_login(TEXT, TEXT);
+DROP FUNCTION public.get_login_lockout(TEXT);
+
+-- Auth hook: count wrong passwords and reject sign-ins while the account is locked
+CREATE OR REPLACE FUNCTION public.hook_password_verification_attempt(event JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_settings public.security_settings;
+  v_user_id UUID := (event->>'user_id')::UUID;
+  v_locked_until TIMESTAMPTZ;
+  v_since TIMESTAMPTZ;
+  v_failures INTEGER;
+BEGIN
+  v_locked_until := public.active_lockout_until(v_user_id, NULL);
+
+  -- Attempts made during a lockout are logged but never extend it
+  IF v_locked_until IS NOT NULL THEN
+    INSERT INTO public.login_history (user_id, success, failure_reason)
+    VALUES (v_user_id, false, 'account_locked');
+  ELSIF NOT (event->>'valid')::BOOLEAN THEN
+    SELECT * INTO v_settings FROM public.security_settings;
+
+    INSERT INTO public.login_history (user_id, success, failure_reason)
+    VALUES (v_user_id, false, 'invalid_credentials');
+
+    -- Counted since the last success or lockout
+    v_since := greatest(
+      now() - v_settings.failed_attempt_window,
+      (SELECT max(login_timestamp) FROM public.login_history WHERE user_id = v_user_id AND success),
+      (SELECT max(COALESCE(unlocked_at, locked_until)) FROM public.account_lockouts WHERE user_id = v_user_id)
+    );
+
+    SELECT count(*) INTO v_failures
+    FROM public.login_history
+    WHERE user_id = v_user_id
+      AND NOT success
+      AND login_timestamp > v_since
+      AND failure_reason IS DISTINCT FROM 'account_locked';
+
+    IF v_failures >= v_settings.max_failed_attempts THEN
+      v_locked_until := public.create_lockout(v_user_id, NULL);
+
+      INSERT INTO public.login_history (user_id, success, failure_reason)
+      VALUES (v_user_id, false, 'account_locked');
+    END IF;
+  END IF;
+
+  IF v_locked_until IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'decision', 'reject',
+      'message', 'Account locked until ' || to_char(v_locked_until AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS"Z"'),
+      'should_logout_user', false
+    );
+  END IF;
+
+  RETURN jsonb_build_object('decision', 'continue');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.hook_password_verification_attempt(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hook_password_verification_attempt(JSONB) TO supabase_auth_admin;
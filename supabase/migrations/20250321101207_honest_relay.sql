@@ -0,0 +1,27 @@
+/*
+  # Trust only the proxy-appended client address
+
+  1. Changes
+    - `request_ip()` takes the right-most `X-Forwarded-For` entry, the one the
+      API gateway appends for the connection it accepted. Entries to its left
+      are whatever the client sent and can't be trusted.
+    - `X-Real-IP` is no longer consulted; clients can set it too
+
+  2. Security
+    - Security events were recording an address the caller chose. Failed
+      logins no longer come from the client at all: `record_failed_login` was
+      dropped in favour of the password verification hook.
+*/
+
+-- Request metadata forwarded by the API gateway
+CREATE OR REPLACE FUNCTION public.request_ip()
+RETURNS TEXT AS $$
+  SELECT NULLIF(
+    trim(regexp_replace(
+      COALESCE(current_setting('request.headers', true)::json->>'x-forwarded-for', ''),
+      '^.*,',
+      ''
+    )),
+    ''
+  );
+$$ LANGUAGE sql STABLE;
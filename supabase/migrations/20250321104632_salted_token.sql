@@ -0,0 +1,149 @@
+/*
+  # Salted recovery codes and server-side AAL2 for staff access
+
+  1. Changes
+    - Recovery codes are stored as bcrypt hashes instead of unsalted SHA-256.
+      A code carries only 40 bits, so a leaked fast hash could be brute-forced;
+      bcrypt makes each guess slow and per-code.
+    - Existing unsalted codes can't be rehashed without their plaintext, so
+      they are deleted and a `recovery_codes_invalidated` security event is
+      logged for each affected user; they generate new codes from their
+      profile
+    - `has_permission()` and `is_admin()` are false unless the session has
+      passed a second factor (`aal` claim is `aal2`). Every staff policy and
+      admin function goes through them, so a password-only session gets no
+      more access than a regular user even when calling the API directly.
+
+  2. Security
+    - `hash_recovery_code(p_code, p_salt)` stays internal; pass the stored
+      hash as the salt to check a code against it
+*/
+
+-- Staff access needs a two-factor verified session
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(auth.jwt()->>'aal', 'aal1') = 'aal2'
+    AND EXISTS (
+      SELECT 1
+      FROM public.user_roles ur
+      JOIN public.role_permissions rp ON rp.role = ur.role
+      WHERE ur.user_id = auth.uid()
+        AND rp.permission = p_permission
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(auth.jwt()->>'aal', 'aal1') = 'aal2'
+    AND EXISTS (
+      SELECT 1
+      FROM public.user_roles
+      WHERE user_id = auth.uid()
+        AND role = 'admin'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Recovery codes
+INSERT INTO public.security_events (user_id, event_type)
+SELECT DISTINCT user_id, 'recovery_codes_invalidated'
+FROM public.mfa_recovery_codes
+WHERE used_at IS NULL
+  AND code_hash NOT LIKE '$2%';
+
+DELETE FROM public.mfa_recovery_codes
+WHERE code_hash NOT LIKE '$2%';
+
+DROP FUNCTION public.hash_recovery_code(TEXT);
+
+-- A fresh salt when p_salt is null; pass a stored hash to compare against it
+CREATE OR REPLACE FUNCTION public.hash_recovery_code(p_code TEXT, p_salt TEXT DEFAULT NULL)
+RETURNS TEXT AS $$
+  SELECT extensions.crypt(
+    regexp_replace(lower(p_code), '[^a-z0-9]', '', 'g'),
+    COALESCE(p_salt, extensions.gen_salt('bf'))
+  );
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION public.hash_recovery_code(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Replace the user's recovery codes and return the plaintext once
+CREATE OR REPLACE FUNCTION public.generate_recovery_codes()
+RETURNS TEXT[] AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_codes TEXT[] := ARRAY[]::TEXT[];
+  v_code TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(auth.jwt()->>'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION 'Recovery codes require a two-factor verified session' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.mfa_recovery_codes WHERE user_id = v_user_id;
+
+  FOR i IN 1..10 LOOP
+    v_code := encode(extensions.gen_random_bytes(5), 'hex');
+    v_code := substr(v_code, 1, 5) || '-' || substr(v_code, 6, 5);
+    v_codes := array_append(v_codes, v_code);
+
+    INSERT INTO public.mfa_recovery_codes (user_id, code_hash)
+    VALUES (v_user_id, public.hash_recovery_code(v_code));
+  END LOOP;
+
+  PERFORM public.log_security_event(v_user_id, 'recovery_codes_generated', jsonb_build_object('count', 10));
+
+  RETURN v_codes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Consume a recovery code in place of a TOTP challenge. The user's TOTP
+-- factors are removed so the session no longer needs AAL2; they are expected
+-- to enroll a new authenticator afterwards.
+CREATE OR REPLACE FUNCTION public.redeem_recovery_code(p_code TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_code_id UUID;
+  v_recent_failures INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT count(*) INTO v_recent_failures
+  FROM public.security_events
+  WHERE user_id = v_user_id
+    AND event_type = 'recovery_code_rejected'
+    AND created_at > now() - interval '15 minutes';
+
+  IF v_recent_failures >= 5 THEN
+    RAISE EXCEPTION 'Too many invalid recovery codes, try again later' USING ERRCODE = '42501';
+  END IF;
+
+  -- bcrypt salts every hash, so each unused code has to be checked in turn
+  SELECT id INTO v_code_id
+  FROM public.mfa_recovery_codes
+  WHERE user_id = v_user_id
+    AND used_at IS NULL
+    AND code_hash = public.hash_recovery_code(p_code, code_hash)
+  LIMIT 1;
+
+  IF v_code_id IS NULL THEN
+    PERFORM public.log_security_event(v_user_id, 'recovery_code_rejected');
+    RETURN false;
+  END IF;
+
+  UPDATE public.mfa_recovery_codes SET used_at = now() WHERE id = v_code_id;
+
+  PERFORM public.log_security_event(v_user_id, 'recovery_code_used');
+
+  DELETE FROM auth.mfa_factors
+  WHERE user_id = v_user_id
+    AND factor_type = 'totp';
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
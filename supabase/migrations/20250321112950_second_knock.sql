@@ -0,0 +1,140 @@
+/*
+  # Server-side reauthentication for email and password changes
+
+  1. New Tables
+    - `public.credential_change_grants`
+      - A single-use permission, valid for one minute, to change one user's
+        password or to start changing their email to one address
+      - Issued by the `update-credentials` edge function once it has checked
+        the caller's current password (or, for a password, that the session
+        came from a reset link)
+
+  2. Changes
+    - A trigger on `auth.users` refuses password changes and email change
+      requests that don't hold a grant, so a stolen session can't make them
+      by calling the auth API directly. Accounts that haven't confirmed their
+      email can still be signed up again with a new password.
+    - `verify_current_password` ends the calling session on the fifth wrong
+      password in fifteen minutes, so guessing through a session stops there
+    - New function `grant_credential_change(p_user_id, p_kind, p_email)` for
+      the edge function; service role only
+
+  3. Security
+    - Enable RLS on `credential_change_grants` with no policies
+    - Changing a password from the dashboard or a script now also needs a
+      grant: call `grant_credential_change` first with the service role
+*/
+
+CREATE TABLE public.credential_change_grants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('password', 'email')),
+  email TEXT,
+  expires_at TIMESTAMPTZ DEFAULT now() + interval '1 minute' NOT NULL,
+  CHECK ((kind = 'email') = (email IS NOT NULL))
+);
+
+CREATE INDEX credential_change_grants_user_id_idx ON public.credential_change_grants (user_id, kind);
+
+ALTER TABLE public.credential_change_grants ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.grant_credential_change(
+  p_user_id UUID,
+  p_kind TEXT,
+  p_email TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM public.credential_change_grants
+  WHERE user_id = p_user_id
+    AND (kind = p_kind OR expires_at <= now());
+
+  INSERT INTO public.credential_change_grants (user_id, kind, email)
+  VALUES (p_user_id, p_kind, lower(trim(p_email)));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.grant_credential_change(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.grant_credential_change(UUID, TEXT, TEXT) TO service_role;
+
+-- Consume a grant for each credential change the auth server writes
+CREATE OR REPLACE FUNCTION public.guard_credential_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.encrypted_password IS DISTINCT FROM OLD.encrypted_password
+    AND (OLD.email_confirmed_at IS NOT NULL OR OLD.phone_confirmed_at IS NOT NULL)
+  THEN
+    DELETE FROM public.credential_change_grants
+    WHERE user_id = NEW.id
+      AND kind = 'password'
+      AND expires_at > now();
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Password changes must be reauthenticated' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  IF COALESCE(NEW.email_change, '') <> ''
+    AND NEW.email_change IS DISTINCT FROM OLD.email_change
+  THEN
+    DELETE FROM public.credential_change_grants
+    WHERE user_id = NEW.id
+      AND kind = 'email'
+      AND email = lower(NEW.email_change)
+      AND expires_at > now();
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Email changes must be reauthenticated' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_credential_changing
+  BEFORE UPDATE OF encrypted_password, email_change ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.guard_credential_change();
+
+CREATE OR REPLACE FUNCTION public.verify_current_password(p_password TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_recent_failures INTEGER;
+  v_matches BOOLEAN;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT count(*) INTO v_recent_failures
+  FROM public.security_events
+  WHERE user_id = v_user_id
+    AND event_type = 'password_verification_failed'
+    AND created_at > now() - interval '15 minutes';
+
+  IF v_recent_failures >= 5 THEN
+    RAISE EXCEPTION 'Too many incorrect passwords, try again later' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT encrypted_password = extensions.crypt(p_password, encrypted_password)
+  INTO v_matches
+  FROM auth.users
+  WHERE id = v_user_id;
+
+  IF NOT COALESCE(v_matches, false) THEN
+    PERFORM public.log_security_event(v_user_id, 'password_verification_failed');
+
+    -- Whoever is guessing has to sign in again, which the lockout counts
+    IF v_recent_failures + 1 >= 5 THEN
+      DELETE FROM auth.sessions
+      WHERE id = public.current_session_id()
+        AND user_id = v_user_id;
+    END IF;
+
+    RETURN false;
+  END IF;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,80 @@
+/*
+  # Refuse requests from revoked sessions
+
+  1. Changes
+    - New function `check_request_session()`, run by PostgREST before every
+      request; it rejects signed-in requests whose session no longer exists.
+      An access token taken from a revoked session stops working for tables
+      and RPCs straight away instead of when it expires.
+    - Realtime doesn't go through PostgREST, so the policies that stream
+      `login_history` and `profile_changes` check the session themselves:
+      - "Users can view own login history" and "Users can view own profile
+        changes"
+      - `has_permission()` and `manages_user()`, which the staff and
+        organization admin policies use
+
+  2. Security
+    - Rejected requests fail with `42501` and the message `Session revoked`
+    - The auth and storage APIs still accept the token until it expires;
+      keep the JWT expiry short (Authentication > Sessions), ten minutes or
+      less
+*/
+
+CREATE OR REPLACE FUNCTION public.check_request_session()
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND public.current_session_id() IS NOT NULL
+    AND NOT public.current_session_active()
+  THEN
+    RAISE EXCEPTION 'Session revoked' USING ERRCODE = '42501';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.check_request_session() TO anon, authenticated;
+
+ALTER ROLE authenticator SET pgrst.db_pre_request = 'public.check_request_session';
+NOTIFY pgrst, 'reload config';
+
+DROP POLICY "Users can view own login history" ON public.login_history;
+DROP POLICY "Users can view own profile changes" ON public.profile_changes;
+
+CREATE POLICY "Users can view own login history"
+  ON public.login_history
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id AND (SELECT public.current_session_active()));
+
+CREATE POLICY "Users can view own profile changes"
+  ON public.profile_changes
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id AND (SELECT public.current_session_active()));
+
+-- Staff access needs a two-factor verified session that hasn't been revoked
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(auth.jwt()->>'aal', 'aal1') = 'aal2'
+    AND public.current_session_active()
+    AND EXISTS (
+      SELECT 1
+      FROM public.user_roles ur
+      JOIN public.role_permissions rp ON rp.role = ur.role
+      WHERE ur.user_id = auth.uid()
+        AND rp.permission = p_permission
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.manages_user(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT public.current_session_active()
+    AND EXISTS (
+      SELECT 1
+      FROM public.organization_members manager
+      JOIN public.organization_members member ON member.organization_id = manager.organization_id
+      WHERE manager.user_id = auth.uid()
+        AND manager.role IN ('owner', 'admin')
+        AND member.user_id = p_user_id
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
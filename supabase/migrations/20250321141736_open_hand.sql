@@ -0,0 +1,83 @@
+/*
+  # Account deletion for accounts without a password
+
+  1. Changes
+    - `request_account_deletion(p_password)` only checks the password when the
+      account has one. Accounts created by OAuth or magic link confirm with a
+      recent sign-in instead: the session must have authenticated within the
+      last ten minutes.
+    - New functions
+      - `has_password()` - whether the signed-in user has a password, so the
+        form knows which confirmation to ask for
+      - `recently_authenticated(p_within)` - whether the current session
+        signed in or stepped up within `p_within`; internal
+
+  2. Security
+    - A session that is older than ten minutes and has no password to offer
+      gets `42501` until the user signs in again
+*/
+
+CREATE OR REPLACE FUNCTION public.has_password()
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(encrypted_password, '') <> ''
+  FROM auth.users
+  WHERE id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.has_password() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.has_password() TO authenticated;
+
+-- The auth server refreshes a claim's updated_at each time the session
+-- authenticates with that method again
+CREATE OR REPLACE FUNCTION public.recently_authenticated(p_within INTERVAL)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM auth.mfa_amr_claims
+    WHERE session_id = public.current_session_id()
+      AND updated_at > now() - p_within
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.recently_authenticated(INTERVAL) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION public.request_account_deletion(TEXT);
+
+-- Schedule deletion after the grace period; returns when it will happen, or
+-- null for a wrong password (raising would roll back the failed-attempt log)
+CREATE OR REPLACE FUNCTION public.request_account_deletion(p_password TEXT DEFAULT NULL)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_scheduled_for TIMESTAMPTZ;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF public.has_password() THEN
+    IF NOT public.verify_current_password(COALESCE(p_password, '')) THEN
+      RETURN NULL;
+    END IF;
+  ELSIF NOT public.recently_authenticated(interval '10 minutes') THEN
+    RAISE EXCEPTION 'Sign in again to confirm' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT now() + account_deletion_grace_period INTO v_scheduled_for
+  FROM public.security_settings;
+
+  INSERT INTO public.account_deletion_requests (user_id, requested_at, scheduled_for, cancelled_at)
+  VALUES (v_user_id, now(), v_scheduled_for, NULL)
+  ON CONFLICT (user_id) DO UPDATE
+    SET requested_at = EXCLUDED.requested_at,
+        scheduled_for = EXCLUDED.scheduled_for,
+        cancelled_at = NULL;
+
+  PERFORM public.log_security_event(v_user_id, 'account_deletion_requested', jsonb_build_object('scheduled_for', v_scheduled_for));
+
+  RETURN v_scheduled_for;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.request_account_deletion(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.request_account_deletion(TEXT) TO authenticated;
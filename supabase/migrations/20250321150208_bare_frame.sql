@@ -0,0 +1,52 @@
+/*
+  # Restrict avatar URLs and delete avatars with the account
+
+  1. Changes
+    - `profiles.avatar_url` must be a public URL for a file in the user's own
+      folder of the `avatars` bucket. Anything else, such as an image on
+      another server that would learn the IP address of everyone who views
+      the profile, is refused. Existing values that don't match are cleared.
+    - `process_account_deletions()` also deletes the user's files from the
+      `avatars` bucket. The bucket is public, so the cascade from `auth.users`
+      left them readable by anyone with the URL.
+
+  2. Security
+    - The check can't know the project's host, so the app renders avatars
+      from the object path under its own storage URL and ignores the host
+*/
+
+UPDATE public.profiles
+SET avatar_url = NULL
+WHERE avatar_url !~ ('^https?://[^/?#@]+/storage/v1/object/public/avatars/' || id::text || '/[^/?#]+$');
+
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_avatar_url_check
+  CHECK (avatar_url ~ ('^https?://[^/?#@]+/storage/v1/object/public/avatars/' || id::text || '/[^/?#]+$'));
+
+-- Hard delete accounts whose grace period has ended, with their avatars
+CREATE OR REPLACE FUNCTION public.process_account_deletions()
+RETURNS INTEGER AS $$
+DECLARE
+  v_user_ids UUID[];
+  v_count INTEGER;
+BEGIN
+  SELECT array_agg(user_id) INTO v_user_ids
+  FROM public.account_deletion_requests
+  WHERE cancelled_at IS NULL
+    AND scheduled_for <= now();
+
+  IF v_user_ids IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  DELETE FROM storage.objects
+  WHERE bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = ANY (SELECT unnest(v_user_ids)::text);
+
+  DELETE FROM auth.users
+  WHERE id = ANY (v_user_ids);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
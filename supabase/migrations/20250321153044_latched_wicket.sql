@@ -0,0 +1,18 @@
+/*
+  # Invite-only sign-ups by default
+
+  1. Changes
+    - `security_settings.invite_only` now defaults to true, and is switched on
+      for the existing settings. New accounts need an invitation until someone
+      with `settings:manage` opens sign-ups from the Invitations page.
+
+  2. Security
+    - Open sign-ups are now a choice made in the app rather than the default
+*/
+
+ALTER TABLE public.security_settings
+  ALTER COLUMN invite_only SET DEFAULT true;
+
+UPDATE public.security_settings
+SET invite_only = true,
+    updated_at = now();
@@ -0,0 +1,304 @@
+/*
+  # Organization invitations need the invitee's consent
+
+  1. Changes
+    - `invite_organization_member(p_organization_id, p_email, p_role)` no
+      longer adds existing accounts straight away. Every invitation is a
+      pending row in `invitations` and the function always returns its token,
+      so the caller can't tell whether the email has an account. A new
+      invitation replaces one still pending for the same email.
+    - People who already have an account see their invitations in the app and
+      accept or decline them; only then do they join, and only members count
+      for `manages_user()`
+    - Memberships that were added without an invitation, other than owners,
+      are turned back into pending invitations. Owners can review those
+      themselves.
+    - While sign-ups are invite-only, an organization invitation only lets a
+      new account sign up if its inviter holds `users:invite`. Otherwise the
+      link still works once sign-ups are open. `get_invitation` applies the
+      same rule, so the sign-up form doesn't offer a link that will fail.
+    - New functions
+      - `list_my_organization_invitations()` - pending invitations for the
+        caller's confirmed email
+      - `respond_to_organization_invitation(p_invitation_id, p_accept)`
+      - `invitation_admits_signup(p_invitation)` - internal
+
+  2. Security
+    - Declining is logged to `security_events` as `invitation_declined`
+*/
+
+-- Whether a pending invitation lets a new account past invite-only sign-ups
+CREATE OR REPLACE FUNCTION public.invitation_admits_signup(p_invitation public.invitations)
+RETURNS BOOLEAN AS $$
+  SELECT p_invitation.organization_id IS NULL
+    OR NOT (SELECT invite_only FROM public.security_settings)
+    OR EXISTS (
+      SELECT 1
+      FROM public.user_roles ur
+      JOIN public.role_permissions rp ON rp.role = ur.role
+      WHERE ur.user_id = p_invitation.created_by
+        AND rp.permission = 'users:invite'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.invitation_admits_signup(public.invitations) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_invitation(p_token TEXT)
+RETURNS TABLE (email TEXT, expires_at TIMESTAMPTZ) AS $$
+  SELECT i.email, i.expires_at
+  FROM public.invitations i
+  WHERE i.token_hash = public.hash_invitation_token(p_token)
+    AND i.revoked_at IS NULL
+    AND i.accepted_at IS NULL
+    AND i.expires_at > now()
+    AND public.invitation_admits_signup(i);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Turn memberships made without the member's consent back into invitations
+INSERT INTO public.invitations (email, token_hash, created_by, expires_at, organization_id, organization_role)
+SELECT lower(u.email), public.hash_invitation_token(encode(extensions.gen_random_bytes(24), 'hex')),
+  m.added_by, now() + interval '7 days', m.organization_id, m.role
+FROM public.organization_members m
+JOIN auth.users u ON u.id = m.user_id
+WHERE m.role <> 'owner'
+  AND m.added_by IS DISTINCT FROM m.user_id
+  AND NOT EXISTS (
+    SELECT 1
+    FROM public.invitations i
+    WHERE i.organization_id = m.organization_id
+      AND i.accepted_by = m.user_id
+  );
+
+DELETE FROM public.organization_members m
+WHERE m.role <> 'owner'
+  AND m.added_by IS DISTINCT FROM m.user_id
+  AND NOT EXISTS (
+    SELECT 1
+    FROM public.invitations i
+    WHERE i.organization_id = m.organization_id
+      AND i.accepted_by = m.user_id
+  );
+
+CREATE OR REPLACE FUNCTION public.invite_organization_member(
+  p_organization_id UUID,
+  p_email TEXT,
+  p_role public.org_role DEFAULT 'member'
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_email TEXT := lower(trim(p_email));
+  v_user_id UUID;
+  v_token TEXT;
+BEGIN
+  PERFORM public.check_organization_grant(p_organization_id, p_role);
+
+  IF v_email !~ '^[^@\s]+@[^@\s]+$' THEN
+    RAISE EXCEPTION 'Invalid email address' USING ERRCODE = '22023';
+  END IF;
+
+  -- Admins can already see who their members are
+  IF EXISTS (
+    SELECT 1
+    FROM public.organization_members m
+    JOIN auth.users u ON u.id = m.user_id
+    WHERE m.organization_id = p_organization_id
+      AND lower(u.email) = v_email
+  ) THEN
+    RAISE EXCEPTION 'Already a member of this organization' USING ERRCODE = '23505';
+  END IF;
+
+  UPDATE public.invitations
+  SET revoked_at = now(),
+      revoked_by = auth.uid()
+  WHERE organization_id = p_organization_id
+    AND lower(email) = v_email
+    AND revoked_at IS NULL
+    AND accepted_at IS NULL;
+
+  v_token := encode(extensions.gen_random_bytes(24), 'hex');
+
+  INSERT INTO public.invitations (email, token_hash, created_by, expires_at, organization_id, organization_role)
+  VALUES (v_email, public.hash_invitation_token(v_token), auth.uid(), now() + interval '7 days', p_organization_id, p_role);
+
+  PERFORM public.log_security_event(
+    auth.uid(),
+    'invitation_created',
+    jsonb_build_object('organization_id', p_organization_id, 'email', v_email, 'organization_role', p_role)
+  );
+
+  -- An existing account sees the invitation in the app straight away
+  SELECT id INTO v_user_id FROM auth.users WHERE lower(email) = v_email;
+
+  IF v_user_id IS NOT NULL THEN
+    PERFORM public.send_control_message(v_user_id, 'organizations_changed');
+  END IF;
+
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.list_my_organization_invitations()
+RETURNS TABLE (
+  id UUID,
+  organization_id UUID,
+  organization_name TEXT,
+  organization_role public.org_role,
+  invited_by_name TEXT,
+  created_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ
+) AS $$
+  SELECT i.id, i.organization_id, o.name, i.organization_role,
+    NULLIF(trim(p.first_name || ' ' || p.last_name), ''), i.created_at, i.expires_at
+  FROM public.invitations i
+  JOIN public.organizations o ON o.id = i.organization_id
+  JOIN auth.users u ON lower(u.email) = lower(i.email)
+  LEFT JOIN public.profiles p ON p.id = i.created_by
+  WHERE u.id = auth.uid()
+    AND u.email_confirmed_at IS NOT NULL
+    AND i.revoked_at IS NULL
+    AND i.accepted_at IS NULL
+    AND i.expires_at > now()
+  ORDER BY i.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.respond_to_organization_invitation(p_invitation_id UUID, p_accept BOOLEAN)
+RETURNS VOID AS $$
+DECLARE
+  v_invitation public.invitations;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT i.* INTO v_invitation
+  FROM public.invitations i
+  JOIN auth.users u ON lower(u.email) = lower(i.email)
+  WHERE i.id = p_invitation_id
+    AND i.organization_id IS NOT NULL
+    AND u.id = auth.uid()
+    AND u.email_confirmed_at IS NOT NULL
+    AND i.revoked_at IS NULL
+    AND i.accepted_at IS NULL
+    AND i.expires_at > now()
+  FOR UPDATE OF i;
+
+  IF v_invitation.id IS NULL THEN
+    RAISE EXCEPTION 'Invitation is not pending' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT p_accept THEN
+    UPDATE public.invitations
+    SET revoked_at = now(),
+        revoked_by = auth.uid()
+    WHERE id = v_invitation.id;
+
+    PERFORM public.log_security_event(
+      auth.uid(),
+      'invitation_declined',
+      jsonb_build_object('invitation_id', v_invitation.id, 'organization_id', v_invitation.organization_id)
+    );
+    RETURN;
+  END IF;
+
+  UPDATE public.invitations
+  SET accepted_at = now(),
+      accepted_by = auth.uid()
+  WHERE id = v_invitation.id;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role, added_by)
+  VALUES (v_invitation.organization_id, auth.uid(), v_invitation.organization_role, v_invitation.created_by)
+  ON CONFLICT DO NOTHING;
+
+  PERFORM public.log_security_event(
+    auth.uid(),
+    'invitation_accepted',
+    jsonb_build_object(
+      'invitation_id', v_invitation.id,
+      'organization_id', v_invitation.organization_id,
+      'invited_by', v_invitation.created_by
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.list_my_organization_invitations() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.list_my_organization_invitations() TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.respond_to_organization_invitation(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.respond_to_organization_invitation(UUID, BOOLEAN) TO authenticated;
+
+-- Raising here rolls back the auth.users insert, so the sign-up fails
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_meta JSONB := COALESCE(NEW.raw_user_meta_data, '{}'::jsonb);
+  v_full_name TEXT := trim(COALESCE(v_meta->>'full_name', v_meta->>'name', ''));
+  v_phone TEXT := v_meta->>'phone_number';
+  v_token TEXT := NULLIF(v_meta->>'invite_token', '');
+  v_invitation public.invitations;
+BEGIN
+  IF v_token IS NOT NULL THEN
+    SELECT * INTO v_invitation
+    FROM public.invitations
+    WHERE token_hash = public.hash_invitation_token(v_token)
+      AND lower(email) = lower(NEW.email)
+      AND revoked_at IS NULL
+      AND accepted_at IS NULL
+      AND expires_at > now()
+    FOR UPDATE;
+  END IF;
+
+  IF NEW.invited_at IS NULL
+    AND (SELECT invite_only FROM public.security_settings)
+    AND (v_invitation.id IS NULL OR NOT public.invitation_admits_signup(v_invitation)) THEN
+    RAISE EXCEPTION 'A valid invitation is required to sign up' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.profiles (id, first_name, last_name, phone_number)
+  VALUES (
+    NEW.id,
+    COALESCE(
+      NULLIF(v_meta->>'first_name', ''),
+      NULLIF(v_meta->>'given_name', ''),
+      split_part(v_full_name, ' ', 1)
+    ),
+    COALESCE(
+      NULLIF(v_meta->>'last_name', ''),
+      NULLIF(v_meta->>'family_name', ''),
+      trim(substr(v_full_name, length(split_part(v_full_name, ' ', 1)) + 1))
+    ),
+    CASE WHEN v_phone ~ '^\+[1-9][0-9]{6,14}$' THEN v_phone END
+  );
+
+  IF v_invitation.id IS NOT NULL THEN
+    UPDATE public.invitations
+    SET accepted_at = now(),
+        accepted_by = NEW.id
+    WHERE id = v_invitation.id;
+
+    IF v_invitation.role IS NOT NULL THEN
+      INSERT INTO public.user_roles (user_id, role, granted_by)
+      VALUES (NEW.id, v_invitation.role, v_invitation.created_by)
+      ON CONFLICT DO NOTHING;
+    END IF;
+
+    IF v_invitation.organization_id IS NOT NULL THEN
+      INSERT INTO public.organization_members (organization_id, user_id, role, added_by)
+      VALUES (v_invitation.organization_id, NEW.id, v_invitation.organization_role, v_invitation.created_by)
+      ON CONFLICT DO NOTHING;
+    END IF;
+
+    PERFORM public.log_security_event(
+      NEW.id,
+      'invitation_accepted',
+      jsonb_build_object(
+        'invitation_id', v_invitation.id,
+        'role', v_invitation.role,
+        'organization_id', v_invitation.organization_id,
+        'invited_by', v_invitation.created_by
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,40 @@
+/*
+  # Check new passwords on the server
+
+  1. Changes
+    - The `update-credentials` edge function now refuses a new password that
+      is among the user's recent passwords, that appears in a known breach, or
+      that doesn't meet the password policy. The forms only check as the user
+      types; the server decides.
+    - New function `password_in_history(p_user_id, p_password)` for the edge
+      function; service role only
+    - Drop `password_recently_used(p_password)`; the browser no longer asks
+
+  2. Security
+    - Sign-ups don't pass through the edge function, so set the same rules in
+      the auth settings (Authentication > Providers > Email):
+      - "Prevent use of leaked passwords" on
+      - Minimum password length 8
+      - Password requirements: lowercase, uppercase letters, digits and symbols
+*/
+
+DROP FUNCTION public.password_recently_used(TEXT);
+
+-- bcrypt salts every hash, so each stored hash has to be checked in turn
+CREATE OR REPLACE FUNCTION public.password_in_history(p_user_id UUID, p_password TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM (
+      SELECT password_hash
+      FROM public.password_history
+      WHERE user_id = p_user_id
+      ORDER BY created_at DESC
+      LIMIT (SELECT password_history_size FROM public.security_settings)
+    ) recent
+    WHERE recent.password_hash = extensions.crypt(p_password, recent.password_hash)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.password_in_history(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.password_in_history(UUID, TEXT) TO service_role;
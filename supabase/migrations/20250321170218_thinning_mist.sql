@@ -0,0 +1,180 @@
+/*
+  # Retention for every table that keeps IP addresses, and for archives
+
+  1. Changes
+    - Retention policies also cover `login_attempts`, `notifications`,
+      `account_lockouts` and `security_events`. Each is pseudonymized after 30
+      days (IP address truncated to its network, user agent reduced to its
+      device family) and deleted after a year, or two for security events.
+      Notifications have the address and device rewritten in their body as
+      well as in `metadata`.
+    - Add `pseudonymized_at` to those tables so rows are only rewritten once
+    - Add `retention_policies.archive_retain_for`, how long archived rows are
+      kept before they are deleted; required when expired rows are archived.
+      Archived profile changes are kept for five years.
+    - Only `login_history` and `profile_changes` have archive tables, so only
+      they can use the `archive` action
+    - New function `pseudonymize_rows(p_table, p_after)`; internal
+    - `apply_retention_policies()` applies all of the above; rows deleted from
+      archives count towards `deleted_count`
+
+  2. Security
+    - Lockouts are only pseudonymized once they have ended, so a lockout
+      still in force keeps matching the full address
+*/
+
+ALTER TABLE public.login_attempts ADD COLUMN pseudonymized_at TIMESTAMPTZ;
+ALTER TABLE public.notifications ADD COLUMN pseudonymized_at TIMESTAMPTZ;
+ALTER TABLE public.account_lockouts ADD COLUMN pseudonymized_at TIMESTAMPTZ;
+ALTER TABLE public.security_events ADD COLUMN pseudonymized_at TIMESTAMPTZ;
+
+ALTER TABLE public.retention_policies
+  ADD COLUMN archive_retain_for INTERVAL;
+
+UPDATE public.retention_policies
+SET archive_retain_for = '5 years'
+WHERE expired_action = 'archive';
+
+ALTER TABLE public.retention_policies
+  DROP CONSTRAINT retention_policies_table_name_check,
+  DROP CONSTRAINT retention_policies_check,
+  ADD CHECK (table_name IN (
+    'login_history', 'profile_changes', 'login_attempts', 'notifications', 'account_lockouts', 'security_events'
+  )),
+  ADD CHECK (pseudonymize_after IS NULL OR table_name <> 'profile_changes'),
+  ADD CHECK (expired_action = 'delete' OR table_name IN ('login_history', 'profile_changes')),
+  ADD CHECK ((expired_action = 'archive') = (archive_retain_for IS NOT NULL));
+
+INSERT INTO public.retention_policies (table_name, pseudonymize_after, retain_for, expired_action) VALUES
+  ('login_attempts', '30 days', '1 year', 'delete'),
+  ('notifications', '30 days', '1 year', 'delete'),
+  ('account_lockouts', '30 days', '1 year', 'delete'),
+  ('security_events', '30 days', '2 years', 'delete');
+
+-- Truncates addresses and user agents older than p_after; returns how many rows
+CREATE OR REPLACE FUNCTION public.pseudonymize_rows(p_table TEXT, p_after INTERVAL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER := 0;
+BEGIN
+  CASE p_table
+    WHEN 'login_history' THEN
+      UPDATE public.login_history
+      SET ip_hash = public.hash_ip(ip_address),
+          ip_address = public.truncate_ip(ip_address),
+          device_info = public.device_family(device_info),
+          pseudonymized_at = now()
+      WHERE pseudonymized_at IS NULL
+        AND login_timestamp < now() - p_after;
+    WHEN 'login_attempts' THEN
+      UPDATE public.login_attempts
+      SET ip_address = public.truncate_ip(ip_address),
+          device_info = public.device_family(device_info),
+          pseudonymized_at = now()
+      WHERE pseudonymized_at IS NULL
+        AND attempted_at < now() - p_after;
+    WHEN 'notifications' THEN
+      UPDATE public.notifications
+      SET body = concat_ws(
+            ' from ',
+            public.device_family(NULLIF(metadata->>'device_info', '')),
+            public.truncate_ip(NULLIF(metadata->>'ip_address', ''))
+          ),
+          metadata = metadata || jsonb_build_object(
+            'ip_address', public.truncate_ip(metadata->>'ip_address'),
+            'device_info', public.device_family(metadata->>'device_info')
+          ),
+          pseudonymized_at = now()
+      WHERE pseudonymized_at IS NULL
+        AND created_at < now() - p_after;
+    WHEN 'account_lockouts' THEN
+      UPDATE public.account_lockouts
+      SET ip_address = public.truncate_ip(ip_address),
+          pseudonymized_at = now()
+      WHERE pseudonymized_at IS NULL
+        AND locked_at < now() - p_after
+        AND locked_until < now();
+    WHEN 'security_events' THEN
+      UPDATE public.security_events
+      SET ip_address = public.truncate_ip(ip_address),
+          device_info = public.device_family(device_info),
+          pseudonymized_at = now()
+      WHERE pseudonymized_at IS NULL
+        AND created_at < now() - p_after;
+  END CASE;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.pseudonymize_rows(TEXT, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- Run by pg_cron. A failure rolls back that run's changes and is recorded
+-- on its retention_runs row.
+CREATE OR REPLACE FUNCTION public.apply_retention_policies()
+RETURNS UUID AS $$
+DECLARE
+  v_run_id UUID;
+  v_policy public.retention_policies;
+  v_count INTEGER;
+  v_pseudonymized INTEGER := 0;
+  v_archived INTEGER := 0;
+  v_deleted INTEGER := 0;
+BEGIN
+  INSERT INTO public.retention_runs DEFAULT VALUES
+  RETURNING id INTO v_run_id;
+
+  BEGIN
+    FOR v_policy IN SELECT * FROM public.retention_policies ORDER BY table_name LOOP
+      IF v_policy.pseudonymize_after IS NOT NULL THEN
+        v_pseudonymized := v_pseudonymized + public.pseudonymize_rows(v_policy.table_name, v_policy.pseudonymize_after);
+      END IF;
+
+      v_count := public.expire_rows(
+        v_policy.table_name,
+        CASE v_policy.table_name
+          WHEN 'login_history' THEN 'login_timestamp'
+          WHEN 'profile_changes' THEN 'change_timestamp'
+          WHEN 'login_attempts' THEN 'attempted_at'
+          WHEN 'account_lockouts' THEN 'locked_at'
+          ELSE 'created_at'
+        END,
+        v_policy.retain_for,
+        v_policy.expired_action
+      );
+
+      IF v_policy.expired_action = 'archive' THEN
+        v_archived := v_archived + v_count;
+        v_deleted := v_deleted + public.expire_rows(
+          v_policy.table_name || '_archive',
+          'archived_at',
+          v_policy.archive_retain_for,
+          'delete'
+        );
+      ELSE
+        v_deleted := v_deleted + v_count;
+      END IF;
+    END LOOP;
+  EXCEPTION
+    WHEN OTHERS THEN
+      UPDATE public.retention_runs
+      SET finished_at = now(),
+          status = 'failed',
+          error = SQLERRM
+      WHERE id = v_run_id;
+
+      RETURN v_run_id;
+  END;
+
+  UPDATE public.retention_runs
+  SET finished_at = now(),
+      status = 'succeeded',
+      pseudonymized_count = v_pseudonymized,
+      archived_count = v_archived,
+      deleted_count = v_deleted
+  WHERE id = v_run_id;
+
+  RETURN v_run_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
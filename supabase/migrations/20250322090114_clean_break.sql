@@ -0,0 +1,113 @@
+/*
+  # Hard delete accounts one at a time, including those with MFA
+
+  1. Changes
+    - `handle_mfa_factor_change()` only logs `mfa_removed` while the user
+      still exists. Deleting a user cascades to `auth.mfa_factors`, and the
+      log entry's foreign key to the deleted user failed, so accounts with a
+      second factor could never be hard deleted.
+    - New function `delete_scheduled_account(p_user_id)` deletes one account
+      whose grace period has ended, with its avatars; internal
+    - `process_account_deletions()` deletes each account in its own
+      subtransaction, so one failure no longer rolls back the whole batch.
+      Failures are raised as warnings and retried on the next run.
+
+  2. Security
+    - `delete_scheduled_account` checks the request again, so an account is
+      never deleted after its owner cancelled
+*/
+
+-- Log factor enrollment and removal from the auth schema
+CREATE OR REPLACE FUNCTION public.handle_mfa_factor_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.status = 'verified' AND OLD.status <> 'verified' THEN
+      PERFORM public.log_security_event(
+        NEW.user_id,
+        'mfa_enrolled',
+        jsonb_build_object('factor_id', NEW.id, 'factor_type', NEW.factor_type, 'friendly_name', NEW.friendly_name)
+      );
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Factors are also removed by the cascade when the user is deleted, and
+  -- the user's events go with them
+  IF OLD.status = 'verified' AND EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+    PERFORM public.log_security_event(
+      OLD.user_id,
+      'mfa_removed',
+      jsonb_build_object('factor_id', OLD.id, 'factor_type', OLD.factor_type, 'friendly_name', OLD.friendly_name)
+    );
+  END IF;
+
+  -- Recovery codes are only meaningful while a second factor exists
+  IF NOT EXISTS (
+    SELECT 1 FROM auth.mfa_factors
+    WHERE user_id = OLD.user_id
+      AND status = 'verified'
+      AND id <> OLD.id
+  ) THEN
+    DELETE FROM public.mfa_recovery_codes WHERE user_id = OLD.user_id;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Hard delete one account whose grace period has ended, with its avatars;
+-- returns whether it was deleted
+CREATE OR REPLACE FUNCTION public.delete_scheduled_account(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  PERFORM 1
+  FROM public.account_deletion_requests
+  WHERE user_id = p_user_id
+    AND cancelled_at IS NULL
+    AND scheduled_for <= now()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  DELETE FROM storage.objects
+  WHERE bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = p_user_id::text;
+
+  DELETE FROM auth.users WHERE id = p_user_id;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.delete_scheduled_account(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Run hourly by pg_cron; returns how many accounts were deleted
+CREATE OR REPLACE FUNCTION public.process_account_deletions()
+RETURNS INTEGER AS $$
+DECLARE
+  v_user_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_user_id IN
+    SELECT user_id
+    FROM public.account_deletion_requests
+    WHERE cancelled_at IS NULL
+      AND scheduled_for <= now()
+    ORDER BY scheduled_for
+  LOOP
+    BEGIN
+      IF public.delete_scheduled_account(v_user_id) THEN
+        v_count := v_count + 1;
+      END IF;
+    EXCEPTION
+      WHEN OTHERS THEN
+        RAISE WARNING 'Could not delete account %: %', v_user_id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,187 @@
+/*
+  # Remove per-IP lockouts
+
+  1. Changes
+    - Drop `security_settings.max_failed_attempts_per_ip` and
+      `account_lockouts.ip_address`. The password verification hook that
+      counts failures isn't told the client's address, so nothing has created
+      an IP lockout since it replaced `record_failed_login`. Per-IP throttling
+      is the auth server's sign-in rate limit (Authentication > Rate Limits).
+    - Remaining IP lockouts are deleted and `account_lockouts.user_id` is
+      required
+    - `active_lockout_until(p_user_id)` and `create_lockout(p_user_id)` only
+      take the account
+    - Lockouts no longer hold an address, so the retention policy for
+      `account_lockouts` only deletes them and `pseudonymized_at` is dropped
+    - Drop the indexes that served per-IP counting
+*/
+
+DELETE FROM public.account_lockouts WHERE user_id IS NULL;
+
+DROP INDEX public.account_lockouts_ip_address_idx;
+DROP INDEX public.login_history_ip_address_idx;
+
+ALTER TABLE public.account_lockouts
+  DROP COLUMN ip_address,
+  DROP COLUMN pseudonymized_at,
+  ALTER COLUMN user_id SET NOT NULL;
+
+ALTER TABLE public.security_settings DROP COLUMN max_failed_attempts_per_ip;
+
+UPDATE public.retention_policies
+SET pseudonymize_after = NULL
+WHERE table_name = 'account_lockouts';
+
+ALTER TABLE public.retention_policies
+  ADD CONSTRAINT retention_policies_account_lockouts_check
+  CHECK (pseudonymize_after IS NULL OR table_name <> 'account_lockouts');
+
+DROP FUNCTION public.active_lockout_until(UUID, TEXT);
+DROP FUNCTION public.create_lockout(UUID, TEXT);
+
+-- Latest active lockout for an account
+CREATE OR REPLACE FUNCTION public.active_lockout_until(p_user_id UUID)
+RETURNS TIMESTAMPTZ AS $$
+  SELECT max(locked_until)
+  FROM public.account_lockouts
+  WHERE user_id = p_user_id
+    AND unlocked_at IS NULL
+    AND locked_until > now();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Lock an account, growing the duration with each lockout inside the
+-- backoff window
+CREATE OR REPLACE FUNCTION public.create_lockout(p_user_id UUID)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_settings public.security_settings;
+  v_previous INTEGER;
+  v_locked_until TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO v_settings FROM public.security_settings;
+
+  SELECT count(*) INTO v_previous
+  FROM public.account_lockouts
+  WHERE user_id = p_user_id
+    AND locked_at > now() - v_settings.lockout_backoff_window;
+
+  v_locked_until := now() + least(
+    v_settings.lockout_duration * power(v_settings.lockout_backoff_multiplier, v_previous)::DOUBLE PRECISION,
+    v_settings.max_lockout_duration
+  );
+
+  INSERT INTO public.account_lockouts (user_id, locked_until)
+  VALUES (p_user_id, v_locked_until);
+
+  RETURN v_locked_until;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.active_lockout_until(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.create_lockout(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Auth hook: count wrong passwords and reject sign-ins while the account is locked
+CREATE OR REPLACE FUNCTION public.hook_password_verification_attempt(event JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_settings public.security_settings;
+  v_user_id UUID := (event->>'user_id')::UUID;
+  v_locked_until TIMESTAMPTZ;
+  v_since TIMESTAMPTZ;
+  v_failures INTEGER;
+BEGIN
+  v_locked_until := public.active_lockout_until(v_user_id);
+
+  -- Attempts made during a lockout are logged but never extend it
+  IF v_locked_until IS NOT NULL THEN
+    INSERT INTO public.login_history (user_id, success, failure_reason)
+    VALUES (v_user_id, false, 'account_locked');
+  ELSIF NOT (event->>'valid')::BOOLEAN THEN
+    SELECT * INTO v_settings FROM public.security_settings;
+
+    INSERT INTO public.login_history (user_id, success, failure_reason)
+    VALUES (v_user_id, false, 'invalid_credentials');
+
+    -- Counted since the last success or lockout
+    v_since := greatest(
+      now() - v_settings.failed_attempt_window,
+      (SELECT max(login_timestamp) FROM public.login_history WHERE user_id = v_user_id AND success),
+      (SELECT max(COALESCE(unlocked_at, locked_until)) FROM public.account_lockouts WHERE user_id = v_user_id)
+    );
+
+    SELECT count(*) INTO v_failures
+    FROM public.login_history
+    WHERE user_id = v_user_id
+      AND NOT success
+      AND login_timestamp > v_since
+      AND failure_reason IS DISTINCT FROM 'account_locked';
+
+    IF v_failures >= v_settings.max_failed_attempts THEN
+      v_locked_until := public.create_lockout(v_user_id);
+
+      INSERT INTO public.login_history (user_id, success, failure_reason)
+      VALUES (v_user_id, false, 'account_locked');
+    END IF;
+  END IF;
+
+  IF v_locked_until IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'decision', 'reject',
+      'message', 'Account locked until ' || to_char(v_locked_until AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS"Z"'),
+      'should_logout_user', false
+    );
+  END IF;
+
+  RETURN jsonb_build_object('decision', 'continue');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Truncates addresses and user agents older than p_after; returns how many rows
+CREATE OR REPLACE FUNCTION public.pseudonymize_rows(p_table TEXT, p_after INTERVAL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER := 0;
+BEGIN
+  CASE p_table
+    WHEN 'login_history' THEN
+      UPDATE public.login_history
+      SET ip_hash = public.hash_ip(ip_address),
+          ip_address = public.truncate_ip(ip_address),
+          device_info = public.device_family(device_info),
+          pseudonymized_at = now()
+      WHERE pseudonymized_at IS NULL
+        AND login_timestamp < now() - p_after;
+    WHEN 'login_attempts' THEN
+      UPDATE public.login_attempts
+      SET ip_address = public.truncate_ip(ip_address),
+          device_info = public.device_family(device_info),
+          pseudonymized_at = now()
+      WHERE pseudonymized_at IS NULL
+        AND attempted_at < now() - p_after;
+    WHEN 'notifications' THEN
+      UPDATE public.notifications
+      SET body = concat_ws(
+            ' from ',
+            public.device_family(NULLIF(metadata->>'device_info', '')),
+            public.truncate_ip(NULLIF(metadata->>'ip_address', ''))
+          ),
+          metadata = metadata || jsonb_build_object(
+            'ip_address', public.truncate_ip(metadata->>'ip_address'),
+            'device_info', public.device_family(metadata->>'device_info')
+          ),
+          pseudonymized_at = now()
+      WHERE pseudonymized_at IS NULL
+        AND created_at < now() - p_after;
+    WHEN 'security_events' THEN
+      UPDATE public.security_events
+      SET ip_address = public.truncate_ip(ip_address),
+          device_info = public.device_family(device_info),
+          pseudonymized_at = now()
+      WHERE pseudonymized_at IS NULL
+        AND created_at < now() - p_after;
+  END CASE;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,138 @@
+/*
+  # Drop the unknown-email attempts table
+
+  1. Changes
+    - Drop `login_attempts` and its retention policy. Only `record_failed_login`
+      wrote to it, and that function was dropped because anyone could call it
+      with any email and address. The password verification hook only runs
+      for existing accounts, so there is nothing left to record there.
+    - `pseudonymize_rows()` and `apply_retention_policies()` no longer handle
+      the table
+
+  2. Security
+    - Failed sign-ins for existing accounts are still written to
+      `login_history` by the hook. The hook isn't told the client's address
+      or user agent, so those rows have neither; successful sign-ins keep
+      both, taken from the session the auth server creates.
+*/
+
+DELETE FROM public.retention_policies WHERE table_name = 'login_attempts';
+
+ALTER TABLE public.retention_policies
+  DROP CONSTRAINT retention_policies_table_name_check,
+  ADD CHECK (table_name IN (
+    'login_history', 'profile_changes', 'notifications', 'account_lockouts', 'security_events'
+  ));
+
+DROP TABLE public.login_attempts;
+
+-- Truncates addresses and user agents older than p_after; returns how many rows
+CREATE OR REPLACE FUNCTION public.pseudonymize_rows(p_table TEXT, p_after INTERVAL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER := 0;
+BEGIN
+  CASE p_table
+    WHEN 'login_history' THEN
+      UPDATE public.login_history
+      SET ip_hash = public.hash_ip(ip_address),
+          ip_address = public.truncate_ip(ip_address),
+          device_info = public.device_family(device_info),
+          pseudonymized_at = now()
+      WHERE pseudonymized_at IS NULL
+        AND login_timestamp < now() - p_after;
+    WHEN 'notifications' THEN
+      UPDATE public.notifications
+      SET body = concat_ws(
+            ' from ',
+            public.device_family(NULLIF(metadata->>'device_info', '')),
+            public.truncate_ip(NULLIF(metadata->>'ip_address', ''))
+          ),
+          metadata = metadata || jsonb_build_object(
+            'ip_address', public.truncate_ip(metadata->>'ip_address'),
+            'device_info', public.device_family(metadata->>'device_info')
+          ),
+          pseudonymized_at = now()
+      WHERE pseudonymized_at IS NULL
+        AND created_at < now() - p_after;
+    WHEN 'security_events' THEN
+      UPDATE public.security_events
+      SET ip_address = public.truncate_ip(ip_address),
+          device_info = public.device_family(device_info),
+          pseudonymized_at = now()
+      WHERE pseudonymized_at IS NULL
+        AND created_at < now() - p_after;
+  END CASE;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Run by pg_cron. A failure rolls back that run's changes and is recorded
+-- on its retention_runs row.
+CREATE OR REPLACE FUNCTION public.apply_retention_policies()
+RETURNS UUID AS $$
+DECLARE
+  v_run_id UUID;
+  v_policy public.retention_policies;
+  v_count INTEGER;
+  v_pseudonymized INTEGER := 0;
+  v_archived INTEGER := 0;
+  v_deleted INTEGER := 0;
+BEGIN
+  INSERT INTO public.retention_runs DEFAULT VALUES
+  RETURNING id INTO v_run_id;
+
+  BEGIN
+    FOR v_policy IN SELECT * FROM public.retention_policies ORDER BY table_name LOOP
+      IF v_policy.pseudonymize_after IS NOT NULL THEN
+        v_pseudonymized := v_pseudonymized + public.pseudonymize_rows(v_policy.table_name, v_policy.pseudonymize_after);
+      END IF;
+
+      v_count := public.expire_rows(
+        v_policy.table_name,
+        CASE v_policy.table_name
+          WHEN 'login_history' THEN 'login_timestamp'
+          WHEN 'profile_changes' THEN 'change_timestamp'
+          WHEN 'account_lockouts' THEN 'locked_at'
+          ELSE 'created_at'
+        END,
+        v_policy.retain_for,
+        v_policy.expired_action
+      );
+
+      IF v_policy.expired_action = 'archive' THEN
+        v_archived := v_archived + v_count;
+        v_deleted := v_deleted + public.expire_rows(
+          v_policy.table_name || '_archive',
+          'archived_at',
+          v_policy.archive_retain_for,
+          'delete'
+        );
+      ELSE
+        v_deleted := v_deleted + v_count;
+      END IF;
+    END LOOP;
+  EXCEPTION
+    WHEN OTHERS THEN
+      UPDATE public.retention_runs
+      SET finished_at = now(),
+          status = 'failed',
+          error = SQLERRM
+      WHERE id = v_run_id;
+
+      RETURN v_run_id;
+  END;
+
+  UPDATE public.retention_runs
+  SET finished_at = now(),
+      status = 'succeeded',
+      pseudonymized_count = v_pseudonymized,
+      archived_count = v_archived,
+      deleted_count = v_deleted
+  WHERE id = v_run_id;
+
+  RETURN v_run_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,140 @@
+/*
+  # Tie credential changes to the exact change that was reauthenticated
+
+  1. Changes
+    - New function `set_user_password(p_user_id, p_password)` for the
+      `update-credentials` edge function; service role only. It writes the
+      bcrypt hash itself, and the permission it gives the trigger lasts only
+      for that statement, so nothing else can use it to set another password.
+    - Password grants are gone: `credential_change_grants` only holds email
+      changes and loses its `kind` column. `grant_credential_change(p_user_id,
+      p_email)` replaces the three-argument version.
+    - `verify_current_password` raises `PT429` once there have been too many
+      wrong passwords, so callers can tell the lockout apart from other errors.
+      PostgREST answers it with HTTP 429.
+
+  2. Security
+    - Setting a password from the dashboard or a script needs
+      `set_user_password`; the auth API is refused as before
+*/
+
+DELETE FROM public.credential_change_grants WHERE kind <> 'email';
+
+ALTER TABLE public.credential_change_grants
+  DROP COLUMN kind,
+  ALTER COLUMN email SET NOT NULL;
+
+CREATE INDEX credential_change_grants_user_id_idx ON public.credential_change_grants (user_id);
+
+DROP FUNCTION public.grant_credential_change(UUID, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.grant_credential_change(p_user_id UUID, p_email TEXT)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM public.credential_change_grants
+  WHERE user_id = p_user_id;
+
+  INSERT INTO public.credential_change_grants (user_id, email)
+  VALUES (p_user_id, lower(trim(p_email)));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.grant_credential_change(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.grant_credential_change(UUID, TEXT) TO service_role;
+
+-- The auth server hashes passwords with bcrypt at cost 10 and checks any
+-- bcrypt hash, so one written here signs in like its own
+CREATE OR REPLACE FUNCTION public.set_user_password(p_user_id UUID, p_password TEXT)
+RETURNS VOID AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  PERFORM set_config('app.password_change_user', p_user_id::text, true);
+
+  UPDATE auth.users
+  SET encrypted_password = extensions.crypt(p_password, extensions.gen_salt('bf', 10)),
+      updated_at = now()
+  WHERE id = p_user_id;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  PERFORM set_config('app.password_change_user', '', true);
+
+  IF v_updated = 0 THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.set_user_password(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_user_password(UUID, TEXT) TO service_role;
+
+-- Refuse credential changes that weren't reauthenticated
+CREATE OR REPLACE FUNCTION public.guard_credential_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.encrypted_password IS DISTINCT FROM OLD.encrypted_password
+    AND (OLD.email_confirmed_at IS NOT NULL OR OLD.phone_confirmed_at IS NOT NULL)
+    AND current_setting('app.password_change_user', true) IS DISTINCT FROM NEW.id::text
+  THEN
+    RAISE EXCEPTION 'Password changes must be reauthenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(NEW.email_change, '') <> ''
+    AND NEW.email_change IS DISTINCT FROM OLD.email_change
+  THEN
+    DELETE FROM public.credential_change_grants
+    WHERE user_id = NEW.id
+      AND email = lower(NEW.email_change)
+      AND expires_at > now();
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Email changes must be reauthenticated' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.verify_current_password(p_password TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_recent_failures INTEGER;
+  v_matches BOOLEAN;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT count(*) INTO v_recent_failures
+  FROM public.security_events
+  WHERE user_id = v_user_id
+    AND event_type = 'password_verification_failed'
+    AND created_at > now() - interval '15 minutes';
+
+  IF v_recent_failures >= 5 THEN
+    RAISE EXCEPTION 'Too many incorrect passwords, try again later' USING ERRCODE = 'PT429';
+  END IF;
+
+  SELECT encrypted_password = extensions.crypt(p_password, encrypted_password)
+  INTO v_matches
+  FROM auth.users
+  WHERE id = v_user_id;
+
+  IF NOT COALESCE(v_matches, false) THEN
+    PERFORM public.log_security_event(v_user_id, 'password_verification_failed');
+
+    -- Whoever is guessing has to sign in again, which the lockout counts
+    IF v_recent_failures + 1 >= 5 THEN
+      DELETE FROM auth.sessions
+      WHERE id = public.current_session_id()
+        AND user_id = v_user_id;
+    END IF;
+
+    RETURN false;
+  END IF;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,73 @@
+/*
+  # Pseudonymize addresses inside security event details
+
+  1. Changes
+    - `login_reported_unrecognized` events copy the notification's metadata
+      into `details`, including the sign-in's IP address and user agent.
+      `pseudonymize_rows()` now rewrites `details->'ip_address'` and
+      `details->'device_info'` as well as the event's own columns.
+    - Events that were already pseudonymized have their details rewritten now
+    - New function `pseudonymize_details(p_details)`, also used for
+      notification metadata; internal
+*/
+
+-- Truncates the address and user agent a details object carries, if any
+CREATE OR REPLACE FUNCTION public.pseudonymize_details(p_details JSONB)
+RETURNS JSONB AS $$
+  SELECT CASE
+    WHEN p_details ? 'ip_address' OR p_details ? 'device_info' THEN
+      p_details || jsonb_build_object(
+        'ip_address', public.truncate_ip(p_details->>'ip_address'),
+        'device_info', public.device_family(p_details->>'device_info')
+      )
+    ELSE p_details
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+REVOKE EXECUTE ON FUNCTION public.pseudonymize_details(JSONB) FROM PUBLIC, anon, authenticated;
+
+UPDATE public.security_events
+SET details = public.pseudonymize_details(details)
+WHERE pseudonymized_at IS NOT NULL
+  AND (details ? 'ip_address' OR details ? 'device_info');
+
+-- Truncates addresses and user agents older than p_after; returns how many rows
+CREATE OR REPLACE FUNCTION public.pseudonymize_rows(p_table TEXT, p_after INTERVAL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER := 0;
+BEGIN
+  CASE p_table
+    WHEN 'login_history' THEN
+      UPDATE public.login_history
+      SET ip_hash = public.hash_ip(ip_address),
+          ip_address = public.truncate_ip(ip_address),
+          device_info = public.device_family(device_info),
+          pseudonymized_at = now()
+      WHERE pseudonymized_at IS NULL
+        AND login_timestamp < now() - p_after;
+    WHEN 'notifications' THEN
+      UPDATE public.notifications
+      SET body = concat_ws(
+            ' from ',
+            public.device_family(NULLIF(metadata->>'device_info', '')),
+            public.truncate_ip(NULLIF(metadata->>'ip_address', ''))
+          ),
+          metadata = public.pseudonymize_details(metadata),
+          pseudonymized_at = now()
+      WHERE pseudonymized_at IS NULL
+        AND created_at < now() - p_after;
+    WHEN 'security_events' THEN
+      UPDATE public.security_events
+      SET ip_address = public.truncate_ip(ip_address),
+          device_info = public.device_family(device_info),
+          details = public.pseudonymize_details(details),
+          pseudonymized_at = now()
+      WHERE pseudonymized_at IS NULL
+        AND created_at < now() - p_after;
+  END CASE;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
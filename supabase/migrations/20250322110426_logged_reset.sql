@@ -0,0 +1,69 @@
+/*
+  # Log password resets where the password is set
+
+  1. Changes
+    - `set_user_password(p_user_id, p_password, p_reset)` logs a
+      `password_reset` security event when `p_reset` is true. The
+      `update-credentials` edge function passes it when a reset link stood in
+      for the current password.
+    - `record_security_event()` no longer accepts `password_reset`
+
+  2. Security
+    - The browser could log a reset that never happened, or skip logging one
+      that did; the event is now written in the same transaction as the
+      password
+*/
+
+DROP FUNCTION public.set_user_password(UUID, TEXT);
+
+-- The auth server hashes passwords with bcrypt at cost 10 and checks any
+-- bcrypt hash, so one written here signs in like its own
+CREATE OR REPLACE FUNCTION public.set_user_password(
+  p_user_id UUID,
+  p_password TEXT,
+  p_reset BOOLEAN DEFAULT false
+)
+RETURNS VOID AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  PERFORM set_config('app.password_change_user', p_user_id::text, true);
+
+  UPDATE auth.users
+  SET encrypted_password = extensions.crypt(p_password, extensions.gen_salt('bf', 10)),
+      updated_at = now()
+  WHERE id = p_user_id;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  PERFORM set_config('app.password_change_user', '', true);
+
+  IF v_updated = 0 THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_reset THEN
+    PERFORM public.log_security_event(p_user_id, 'password_reset');
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.set_user_password(UUID, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_user_password(UUID, TEXT, BOOLEAN) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.record_security_event(
+  p_event_type TEXT,
+  p_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_event_type <> 'session_timeout' THEN
+    RAISE EXCEPTION 'Unsupported security event: %', p_event_type USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM public.log_security_event(auth.uid(), p_event_type, p_details);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,79 @@
+/*
+  # Delete avatars through the Storage API
+
+  1. Changes
+    - The hourly account deletion job now calls the
+      `process-account-deletions` edge function. For each account whose
+      grace period has ended it removes the user's folder in the `avatars`
+      bucket through the Storage API, then deletes the account. Deleting
+      rows from `storage.objects` left the files in the storage backend, and
+      newer storage versions refuse it.
+    - `delete_scheduled_account(p_user_id)` no longer touches
+      `storage.objects`; it is callable by the service role
+    - New function `due_account_deletions()` lists the accounts to delete;
+      service role only
+    - Drop `process_account_deletions()`
+
+  2. Security
+    - The job reads the project URL and service role key from Vault. Create
+      them once per project:
+        SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+        SELECT vault.create_secret('<service role key>', 'service_role_key');
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE OR REPLACE FUNCTION public.due_account_deletions()
+RETURNS SETOF UUID AS $$
+  SELECT user_id
+  FROM public.account_deletion_requests
+  WHERE cancelled_at IS NULL
+    AND scheduled_for <= now()
+  ORDER BY scheduled_for;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.due_account_deletions() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.due_account_deletions() TO service_role;
+
+-- Hard delete one account whose grace period has ended; returns whether it
+-- was deleted. The caller removes its avatars first.
+CREATE OR REPLACE FUNCTION public.delete_scheduled_account(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  PERFORM 1
+  FROM public.account_deletion_requests
+  WHERE user_id = p_user_id
+    AND cancelled_at IS NULL
+    AND scheduled_for <= now()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  DELETE FROM auth.users WHERE id = p_user_id;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.delete_scheduled_account(UUID) TO service_role;
+
+DROP FUNCTION public.process_account_deletions();
+
+-- Same job name, so this replaces the schedule that called the SQL function
+SELECT cron.schedule(
+  'process-account-deletions',
+  '0 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/process-account-deletions',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,50 @@
+-- Run with `supabase test db`
+BEGIN;
+
+SELECT plan(5);
+
+-- invited_at lets the accounts past invite-only sign-ups
+INSERT INTO auth.users (id, email, invited_at) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'mfa-user@example.com', now()),
+  ('00000000-0000-0000-0000-0000000000a2', 'cancelled@example.com', now());
+
+INSERT INTO auth.mfa_factors (id, user_id, friendly_name, factor_type, status, created_at, updated_at) VALUES
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-0000000000a1', 'Phone', 'totp', 'verified', now(), now()),
+  ('00000000-0000-0000-0000-0000000000f2', '00000000-0000-0000-0000-0000000000a2', 'Phone', 'totp', 'verified', now(), now());
+
+INSERT INTO public.account_deletion_requests (user_id, requested_at, scheduled_for, cancelled_at) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', now() - interval '15 days', now() - interval '1 day', NULL),
+  ('00000000-0000-0000-0000-0000000000a2', now() - interval '15 days', now() - interval '1 day', now() - interval '2 days');
+
+SELECT ok(
+  public.delete_scheduled_account('00000000-0000-0000-0000-0000000000a1'),
+  'deletes the account with a second factor'
+);
+
+SELECT is_empty(
+  $$SELECT 1 FROM auth.users WHERE id = '00000000-0000-0000-0000-0000000000a1'$$,
+  'the account with a second factor is gone'
+);
+
+SELECT is_empty(
+  $$SELECT 1 FROM auth.mfa_factors WHERE user_id = '00000000-0000-0000-0000-0000000000a1'$$,
+  'its factors are gone'
+);
+
+SELECT ok(
+  NOT public.delete_scheduled_account('00000000-0000-0000-0000-0000000000a2'),
+  'a cancelled request keeps the account'
+);
+
+DELETE FROM auth.mfa_factors WHERE id = '00000000-0000-0000-0000-0000000000f2';
+
+SELECT isnt_empty(
+  $$SELECT 1 FROM public.security_events
+    WHERE user_id = '00000000-0000-0000-0000-0000000000a2'
+      AND event_type = 'mfa_removed'$$,
+  'removing a factor from a remaining account is still logged'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;